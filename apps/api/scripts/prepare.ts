@@ -1,5 +1,5 @@
+import { cp, mkdir, rm } from "node:fs/promises";
 import path from "node:path";
-import { $ } from "bun";
 
 console.log("Starting prebuild...");
 
@@ -9,15 +9,15 @@ const publicDir = path.join(main, "public/r");
 const distDir = path.join(main, "dist");
 
 console.log(`Cleaning public directory: ${publicDir}`);
-await $`rm -rf ${publicDir}`.cwd(main);
+await rm(publicDir, { recursive: true, force: true });
 
 console.log(`Cleaning dist directory: ${distDir}`);
-await $`rm -rf ${distDir}`.cwd(main);
+await rm(distDir, { recursive: true, force: true });
 
 console.log(`Creating output directory: ${publicDir}`);
-await $`mkdir -p ${publicDir}`.cwd(main);
+await mkdir(publicDir, { recursive: true });
 
 console.log(`Copying files from ${inputs} to ${publicDir}`);
-await $`cp ${inputs}/* ${publicDir}`.cwd(main);
+await cp(inputs, publicDir, { recursive: true });
 
 console.log("Prebuild complete.");
@@ -0,0 +1,121 @@
+import { type FSWatcher, existsSync, watch } from "node:fs";
+import path from "node:path";
+import {
+	buildRegistry as buildRegistryPackage,
+	getAffectedItems,
+	readRegistry,
+} from "@bank-kit/registry/lib/build";
+import { REGISTRY_DIR } from "./registry";
+
+/** Root of the `@bank-kit/registry` package, which holds the item sources. */
+const REGISTRY_PACKAGE_DIR = path.dirname(
+	Bun.resolveSync("@bank-kit/registry/registry.json", import.meta.dir),
+);
+
+/** Collects bursts of file events (editors often write several) into one rebuild. */
+const DEBOUNCE_MS = 50;
+
+/**
+ * Builds items straight from the registry sources into `REGISTRY_DIR`, along
+ * with the manifest. Builds every item unless `names` is given, and returns
+ * the names of the items it wrote.
+ */
+export async function buildRegistry(names?: string[]) {
+	const { built, errors } = await buildRegistryPackage({
+		cwd: REGISTRY_PACKAGE_DIR,
+		outputDir: REGISTRY_DIR,
+		names,
+		// Versions are published by the package build, not by local edits,
+		// but the published ones are still served for `name@version` routes.
+		snapshot: false,
+	});
+	for (const error of errors) {
+		console.error(error);
+	}
+	return built;
+}
+
+/**
+ * Watches the directory of every item file listed in `registry.json`, and the
+ * manifest itself, and rebuilds only the affected items. A manifest change
+ * rebuilds everything and re-derives the watched directories, since items may
+ * have been added or moved.
+ */
+export async function watchRegistry(
+	onRebuild: (items: string[]) => void,
+): Promise<{ close(): void }> {
+	const manifest = path.join(REGISTRY_PACKAGE_DIR, "registry.json");
+	const watchers = new Map<string, FSWatcher>();
+	const pending = new Set<string>();
+	let timer: Timer | undefined;
+
+	async function updateWatchers() {
+		const registry = await readRegistry(REGISTRY_PACKAGE_DIR);
+		const dirs = new Set([
+			REGISTRY_PACKAGE_DIR,
+			...registry.items.flatMap((item) =>
+				(item.files ?? []).map((file) =>
+					path.dirname(path.resolve(REGISTRY_PACKAGE_DIR, file.path)),
+				),
+			),
+		]);
+		for (const [dir, watcher] of watchers) {
+			if (!dirs.has(dir)) {
+				watcher.close();
+				watchers.delete(dir);
+			}
+		}
+		for (const dir of dirs) {
+			// A missing directory fails the build, which reports it.
+			if (watchers.has(dir) || !existsSync(dir)) {
+				continue;
+			}
+			const watcher = watch(dir, (_event, file) => {
+				if (!file) {
+					return;
+				}
+				pending.add(path.join(dir, file.toString()));
+				clearTimeout(timer);
+				timer = setTimeout(flush, DEBOUNCE_MS);
+			});
+			watchers.set(dir, watcher);
+		}
+	}
+
+	async function flush() {
+		const changed = [...pending];
+		pending.clear();
+
+		try {
+			let names: string[] | undefined;
+			if (changed.includes(manifest)) {
+				await updateWatchers();
+			} else {
+				names = getAffectedItems(
+					await readRegistry(REGISTRY_PACKAGE_DIR),
+					changed,
+					REGISTRY_PACKAGE_DIR,
+				);
+				if (names.length === 0) {
+					return;
+				}
+			}
+			const built = await buildRegistry(names);
+			console.log(`Rebuilt ${built.join(", ")}`);
+			onRebuild(built);
+		} catch (error) {
+			console.error("Failed to rebuild the registry:", error);
+		}
+	}
+
+	await updateWatchers();
+	return {
+		close() {
+			clearTimeout(timer);
+			for (const watcher of watchers.values()) {
+				watcher.close();
+			}
+			watchers.clear();
+		},
+	};
+}
@@ -0,0 +1,29 @@
+/**
+ * An error that maps onto an HTTP response with a structured JSON body:
+ * `{ error: { code, message, suggestions } }`.
+ */
+export class RegistryError extends Error {
+	constructor(
+		readonly status: number,
+		readonly code: string,
+		message: string,
+		readonly suggestions: string[] = [],
+		readonly headers: Record<string, string> = {},
+	) {
+		super(message);
+		this.name = "RegistryError";
+	}
+
+	toResponse() {
+		return Response.json(
+			{
+				error: {
+					code: this.code,
+					message: this.message,
+					suggestions: this.suggestions,
+				},
+			},
+			{ status: this.status, headers: this.headers },
+		);
+	}
+}
@@ -0,0 +1,42 @@
+const encoder = new TextEncoder();
+const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+
+/** Opens a server-sent events stream that receives every `broadcast`. */
+export function createEventStream() {
+	let client: ReadableStreamDefaultController<Uint8Array>;
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			client = controller;
+			clients.add(controller);
+			controller.enqueue(encoder.encode(": connected\n\n"));
+		},
+		cancel() {
+			clients.delete(client);
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+			// The docs preview subscribes from its own origin.
+			"Access-Control-Allow-Origin": "*",
+		},
+	});
+}
+
+/** Sends an event to every connected client. */
+export function broadcast(event: string, data: unknown) {
+	const message = encoder.encode(
+		`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+	);
+	for (const client of clients) {
+		try {
+			client.enqueue(message);
+		} catch {
+			clients.delete(client);
+		}
+	}
+}
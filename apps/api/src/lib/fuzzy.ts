@@ -0,0 +1,51 @@
+/**
+ * Number of single-character edits needed to turn `a` into `b`, counting a
+ * swap of two adjacent characters as one edit (optimal string alignment).
+ */
+export function levenshtein(a: string, b: string) {
+	let beforePrevious: number[] = [];
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let distance = Math.min(
+				(previous[j] ?? 0) + 1,
+				(current[j - 1] ?? 0) + 1,
+				(previous[j - 1] ?? 0) + cost,
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				distance = Math.min(distance, (beforePrevious[j - 2] ?? 0) + 1);
+			}
+			current[j] = distance;
+		}
+		beforePrevious = previous;
+		previous = current;
+	}
+
+	return previous[b.length] ?? 0;
+}
+
+/**
+ * Returns the candidates closest to `input`, for "did you mean" hints.
+ * Substring matches rank first, then anything within a few edits.
+ */
+export function suggest(input: string, candidates: string[], limit = 3) {
+	const needle = input.toLowerCase();
+	const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+
+	return candidates
+		.map((candidate) => {
+			const haystack = candidate.toLowerCase();
+			const isSubstring =
+				Math.min(needle.length, haystack.length) >= 3 &&
+				(haystack.includes(needle) || needle.includes(haystack));
+			const distance = isSubstring ? 0 : levenshtein(needle, haystack);
+			return { candidate, distance };
+		})
+		.filter(({ distance }) => distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, limit)
+		.map(({ candidate }) => candidate);
+}
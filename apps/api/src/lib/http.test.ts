@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { brotliDecompressSync } from "node:zlib";
+import { jsonResponse } from "./http";
+
+// Large enough to be compressed.
+const DATA = { items: Array.from({ length: 200 }, (_, i) => `item-${i}`) };
+
+function request(headers: Record<string, string> = {}) {
+	return new Request("http://localhost/api/registry", { headers });
+}
+
+describe("jsonResponse", () => {
+	test("answers a matching If-None-Match with an empty 304", async () => {
+		const { headers } = jsonResponse(request(), DATA);
+		const etag = headers.get("ETag") as string;
+
+		const response = jsonResponse(request({ "If-None-Match": etag }), DATA);
+
+		expect(response.status).toBe(304);
+		expect(response.headers.get("ETag")).toBe(etag);
+		expect(await response.text()).toBe("");
+	});
+
+	test("compares ETags weakly and accepts any in a list", () => {
+		const etag = jsonResponse(request(), DATA).headers.get("ETag") as string;
+		const strong = etag.replace(/^W\//, "");
+
+		for (const ifNoneMatch of [strong, `"other", ${etag}`, "*"]) {
+			const response = jsonResponse(
+				request({ "If-None-Match": ifNoneMatch }),
+				DATA,
+			);
+			expect(response.status).toBe(304);
+		}
+	});
+
+	test("sends the body when the ETag changed", async () => {
+		const response = jsonResponse(
+			request({ "If-None-Match": '"stale"' }),
+			DATA,
+		);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual(DATA);
+	});
+
+	test("prefers brotli, then gzip, by quality", async () => {
+		const brotli = jsonResponse(
+			request({ "Accept-Encoding": "gzip, deflate, br" }),
+			DATA,
+		);
+		expect(brotli.headers.get("Content-Encoding")).toBe("br");
+		expect(
+			JSON.parse(
+				brotliDecompressSync(
+					Buffer.from(await brotli.arrayBuffer()),
+				).toString(),
+			),
+		).toEqual(DATA);
+
+		const gzip = jsonResponse(
+			request({ "Accept-Encoding": "br;q=0.5, gzip" }),
+			DATA,
+		);
+		expect(gzip.headers.get("Content-Encoding")).toBe("gzip");
+		expect(
+			JSON.parse(
+				new TextDecoder().decode(
+					Bun.gunzipSync(new Uint8Array(await gzip.arrayBuffer())),
+				),
+			),
+		).toEqual(DATA);
+	});
+
+	test("does not compress refused encodings or small bodies", () => {
+		const refused = jsonResponse(
+			request({ "Accept-Encoding": "br;q=0, gzip;q=0" }),
+			DATA,
+		);
+		expect(refused.headers.get("Content-Encoding")).toBeNull();
+
+		const small = jsonResponse(request({ "Accept-Encoding": "br" }), {
+			name: "pill",
+		});
+		expect(small.headers.get("Content-Encoding")).toBeNull();
+		expect(small.headers.get("Vary")).toBe("Accept-Encoding");
+	});
+
+	test("marks private and immutable responses", () => {
+		const response = jsonResponse(request(), DATA, {
+			immutable: true,
+			private: true,
+		});
+
+		expect(response.headers.get("Cache-Control")).toBe(
+			"private, max-age=31536000, immutable",
+		);
+	});
+});
@@ -0,0 +1,120 @@
+import { brotliCompressSync } from "node:zlib";
+import type { z } from "zod";
+import { RegistryError } from "./errors";
+
+/** Bodies smaller than this are not worth compressing. */
+const MIN_COMPRESSIBLE_BYTES = 1024;
+
+const CACHE_CONTROL = {
+	// Pinned versions never change once published.
+	immutable: "public, max-age=31536000, immutable",
+	// Everything else may change on deploy, so clients revalidate via ETag.
+	revalidate: "public, max-age=0, must-revalidate",
+};
+
+export interface JsonResponseOptions {
+	/** The body can never change for this URL, e.g. an exact item version. */
+	immutable?: boolean;
+	/** The body is only for the authenticated client; shared caches must not store it. */
+	private?: boolean;
+}
+
+/**
+ * Serializes `data` as JSON with a content-hash ETag, answering with a 304
+ * when the client's `If-None-Match` matches, and compressing the body with
+ * brotli or gzip when the client accepts it.
+ */
+export function jsonResponse(
+	req: Request,
+	data: unknown,
+	{ immutable = false, private: isPrivate = false }: JsonResponseOptions = {},
+) {
+	const body = JSON.stringify(data);
+	const etag = `W/"${Bun.hash(body).toString(16)}"`;
+	const cacheControl = immutable
+		? CACHE_CONTROL.immutable
+		: CACHE_CONTROL.revalidate;
+	const headers = new Headers({
+		ETag: etag,
+		"Cache-Control": isPrivate
+			? cacheControl.replace("public", "private")
+			: cacheControl,
+		Vary: "Accept-Encoding",
+	});
+
+	if (matchesETag(req.headers.get("If-None-Match"), etag)) {
+		return new Response(null, { status: 304, headers });
+	}
+
+	headers.set("Content-Type", "application/json;charset=utf-8");
+
+	const encoding =
+		body.length >= MIN_COMPRESSIBLE_BYTES
+			? negotiateEncoding(req.headers.get("Accept-Encoding"))
+			: null;
+	if (encoding === "br") {
+		headers.set("Content-Encoding", "br");
+		return new Response(brotliCompressSync(body), { headers });
+	}
+	if (encoding === "gzip") {
+		headers.set("Content-Encoding", "gzip");
+		return new Response(Bun.gzipSync(body), { headers });
+	}
+	return new Response(body, { headers });
+}
+
+/** Validates the request's query string, throwing a 400 when it is invalid. */
+export function parseQuery<T extends z.ZodTypeAny>(
+	req: Request,
+	schema: T,
+): z.infer<T> {
+	const { searchParams } = new URL(req.url);
+	const query = schema.safeParse(Object.fromEntries(searchParams));
+	if (!query.success) {
+		throw new RegistryError(
+			400,
+			"INVALID_QUERY",
+			query.error.issues
+				.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				.join("; "),
+		);
+	}
+	return query.data;
+}
+
+function matchesETag(ifNoneMatch: string | null, etag: string) {
+	if (!ifNoneMatch) {
+		return false;
+	}
+	if (ifNoneMatch.trim() === "*") {
+		return true;
+	}
+	// If-None-Match uses weak comparison, so ignore any W/ prefixes.
+	const opaque = etag.replace(/^W\//, "");
+	return ifNoneMatch
+		.split(",")
+		.some((candidate) => candidate.trim().replace(/^W\//, "") === opaque);
+}
+
+/** Picks `br` or `gzip` from an `Accept-Encoding` header, preferring `br`. */
+function negotiateEncoding(acceptEncoding: string | null) {
+	const accepted = new Map<string, number>();
+	for (const part of acceptEncoding?.split(",") ?? []) {
+		const [coding = "", ...params] = part.trim().split(";");
+		const q = params
+			.map((param) => param.trim())
+			.find((param) => param.startsWith("q="));
+		accepted.set(coding.toLowerCase(), q ? Number(q.slice(2)) : 1);
+	}
+
+	const wildcard = accepted.get("*") ?? 0;
+	const quality = (coding: string) => accepted.get(coding) ?? wildcard;
+
+	if (quality("br") > 0 && quality("br") >= quality("gzip")) {
+		return "br";
+	}
+	if (quality("gzip") > 0) {
+		return "gzip";
+	}
+	return null;
+}
@@ -0,0 +1,149 @@
+import { timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import type { RegistryItemLoader } from "@bank-kit/registry/lib/resolve";
+import { z } from "zod";
+import { RegistryError } from "./errors";
+import { suggest } from "./fuzzy";
+import { findRegistryItem, getRegistryItem } from "./registry";
+
+/** Namespace config file, resolved against the working directory. */
+const NAMESPACES_FILE =
+	Bun.env.REGISTRY_NAMESPACES_FILE ?? "registry.namespaces.json";
+
+const NAMESPACE_PATTERN = /^@[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const namespacesConfigSchema = z.record(
+	z.string().regex(NAMESPACE_PATTERN),
+	z.object({
+		// Directory holding the namespace's `registry.json` and built items,
+		// relative to the config file.
+		dir: z.string(),
+		// Public namespaces skip authentication entirely.
+		public: z.boolean().default(false),
+		tokens: z.array(z.string().min(16)).default([]),
+	}),
+);
+
+export interface Namespace {
+	name: string;
+	dir: string;
+	public: boolean;
+	tokens: string[];
+}
+
+/**
+ * Reads the namespace config. Tokens can also be supplied through the
+ * environment as `REGISTRY_TOKENS_<NAMESPACE>`, comma separated — e.g.
+ * `REGISTRY_TOKENS_ACME` for `@acme` — so they need not be written to disk.
+ */
+export async function getNamespaces(): Promise<Map<string, Namespace>> {
+	const file = Bun.file(NAMESPACES_FILE);
+	const config = namespacesConfigSchema.parse(
+		(await file.exists()) ? await file.json() : {},
+	);
+
+	return new Map(
+		Object.entries(config).map(([name, namespace]) => [
+			name,
+			{
+				name,
+				dir: path.resolve(path.dirname(NAMESPACES_FILE), namespace.dir),
+				public: namespace.public,
+				tokens: [...namespace.tokens, ...getEnvTokens(name)],
+			},
+		]),
+	);
+}
+
+/** Splits `@acme/statement-viewer` into its namespace and item name. */
+export function parseNamespacedName(specifier: string) {
+	const match = specifier.match(/^(@[^/]+)\/(.+)$/);
+	if (!match?.[1] || !match[2]) {
+		return null;
+	}
+	return { namespace: match[1], name: match[2] };
+}
+
+/**
+ * Looks up a namespace and checks the request's bearer token against the
+ * tokens scoped to it: no token is a 401, a token for another namespace a 403.
+ */
+export async function authorizeNamespace(
+	req: Request,
+	name: string,
+): Promise<Namespace> {
+	if (!NAMESPACE_PATTERN.test(name)) {
+		throw new RegistryError(
+			400,
+			"INVALID_NAMESPACE",
+			`"${name}" is not a valid namespace. Namespaces look like "@acme".`,
+		);
+	}
+
+	const namespaces = await getNamespaces();
+	const namespace = namespaces.get(name);
+	if (!namespace) {
+		throw new RegistryError(
+			404,
+			"NAMESPACE_NOT_FOUND",
+			`Namespace "${name}" not found.`,
+			suggest(name, [...namespaces.keys()]),
+		);
+	}
+	if (namespace.public) {
+		return namespace;
+	}
+
+	const token = req.headers
+		.get("Authorization")
+		?.match(/^Bearer\s+(\S+)$/i)?.[1];
+	if (!token) {
+		throw new RegistryError(
+			401,
+			"UNAUTHORIZED",
+			`A bearer token is required to access "${name}".`,
+			[],
+			{ "WWW-Authenticate": `Bearer realm="${name}"` },
+		);
+	}
+	if (!namespace.tokens.some((allowed) => isSameToken(allowed, token))) {
+		throw new RegistryError(
+			403,
+			"FORBIDDEN",
+			`The provided token cannot access "${name}".`,
+		);
+	}
+	return namespace;
+}
+
+/**
+ * Item loader for the dependency resolver that understands `@namespace/name`
+ * specifiers, authorizing the request against each namespace it touches. A
+ * namespace cannot defer its items to another registry, so one it lacks is a
+ * 404 naming `@namespace/name` rather than an unresolved dependency.
+ */
+export function createItemLoader(req: Request): RegistryItemLoader {
+	return async (specifier) => {
+		const scoped = parseNamespacedName(specifier);
+		if (!scoped) {
+			return getRegistryItem(specifier);
+		}
+		const namespace = await authorizeNamespace(req, scoped.namespace);
+		return findRegistryItem(scoped.name, namespace.dir, namespace.name);
+	};
+}
+
+function getEnvTokens(namespace: string) {
+	const key = `REGISTRY_TOKENS_${namespace.slice(1).toUpperCase().replaceAll("-", "_")}`;
+	return (Bun.env[key] ?? "")
+		.split(",")
+		.map((token) => token.trim())
+		.filter(Boolean);
+}
+
+/** Compares tokens in constant time so they cannot be guessed by timing. */
+function isSameToken(expected: string, actual: string) {
+	const a = Buffer.from(expected);
+	const b = Buffer.from(actual);
+	return a.length === b.length && timingSafeEqual(a, b);
+}
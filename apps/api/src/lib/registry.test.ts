@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { RegistryError } from "./errors";
+import { resolveRegistryTree } from "./registry";
+
+const ITEMS: RegistryItem[] = [
+	{
+		name: "cycle-a",
+		type: "registry:component",
+		registryDependencies: ["@acme/cycle-b"],
+	},
+	{
+		name: "cycle-b",
+		type: "registry:component",
+		registryDependencies: ["@acme/cycle-a"],
+	},
+];
+
+async function loadItem(specifier: string) {
+	return ITEMS.find(({ name }) => `@acme/${name}` === specifier) ?? null;
+}
+
+describe("resolveRegistryTree", () => {
+	test("reports circular registryDependencies as a 422", async () => {
+		const error = await resolveRegistryTree(["@acme/cycle-a"], loadItem).catch(
+			(error: unknown) => error,
+		);
+
+		expect(error).toBeInstanceOf(RegistryError);
+		expect(error).toMatchObject({
+			status: 422,
+			code: "CIRCULAR_DEPENDENCY",
+		});
+		expect((error as RegistryError).message).toContain(
+			"@acme/cycle-a -> @acme/cycle-b -> @acme/cycle-a",
+		);
+	});
+});
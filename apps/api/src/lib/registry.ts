@@ -0,0 +1,230 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import {
+	CircularDependencyError,
+	type RegistryItemLoader,
+	resolveRegistryItemsTree,
+} from "@bank-kit/registry/lib/resolve";
+import {
+	type Registry,
+	type RegistryItem,
+	registryItemSchema,
+	registryItemTypeSchema,
+	registrySchema,
+} from "@bank-kit/registry/lib/schema";
+import { z } from "zod";
+import { RegistryError } from "./errors";
+import { suggest } from "./fuzzy";
+
+/**
+ * Directory the registry is served from: the build output `scripts/prepare.ts`
+ * copies into `public/r`, or in development the untracked build `lib/dev.ts`
+ * writes straight from the sources.
+ */
+export const REGISTRY_DIR =
+	Bun.env.NODE_ENV === "development" ? ".dev/r" : "public/r";
+
+// Item names are kebab-case, which also keeps them safe to use in file paths.
+const ITEM_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const VERSION_RANGE_PATTERN = /^[\w.^~<>=*| -]+$/;
+
+export const registryIndexQuerySchema = z.object({
+	// Accept both the full `registry:ui` form and the short `ui` form.
+	type: z
+		.string()
+		.transform((type) =>
+			type.startsWith("registry:") ? type : `registry:${type}`,
+		)
+		.pipe(registryItemTypeSchema)
+		.optional(),
+	category: z.string().optional(),
+});
+
+export type RegistryIndexQuery = z.infer<typeof registryIndexQuerySchema>;
+
+export type RegistryIndexItem = Pick<
+	RegistryItem,
+	"name" | "title" | "description" | "type" | "categories" | "dependencies"
+>;
+
+/**
+ * Reads the `registry.json` manifest that the `@bank-kit/registry` build
+ * writes next to the item files. `dir` defaults to the public registry; private namespaces pass
+ * their own directory.
+ */
+export async function getRegistry(dir = REGISTRY_DIR): Promise<Registry> {
+	const manifest = await Bun.file(path.join(dir, "registry.json")).json();
+	return registrySchema.parse(manifest);
+}
+
+/**
+ * Splits an item specifier such as `button@1.2.0` or `button@^1` into its
+ * name and optional version range.
+ */
+export function parseItemSpecifier(specifier: string) {
+	const index = specifier.lastIndexOf("@");
+	if (index <= 0) {
+		return { name: specifier, version: undefined };
+	}
+	return {
+		name: specifier.slice(0, index),
+		version: specifier.slice(index + 1),
+	};
+}
+
+/** Lists the published versions of an item, oldest first. */
+export async function getRegistryItemVersions(
+	name: string,
+	dir = REGISTRY_DIR,
+) {
+	const entries = await readdir(path.join(dir, name)).catch(
+		() => [] as string[],
+	);
+	return entries
+		.filter((entry) => entry.endsWith(".json"))
+		.map((entry) => entry.slice(0, -".json".length))
+		.sort(Bun.semver.order);
+}
+
+/**
+ * Reads a built registry item, or `null` when there is no such item. A
+ * versioned specifier resolves to the highest published version in range.
+ */
+export async function getRegistryItem(
+	specifier: string,
+	dir = REGISTRY_DIR,
+): Promise<RegistryItem | null> {
+	const { name, version } = parseItemSpecifier(specifier);
+	if (!ITEM_NAME_PATTERN.test(name)) {
+		return null;
+	}
+
+	let file = Bun.file(path.join(dir, `${name}.json`));
+	if (version && version !== "latest") {
+		const versions = await getRegistryItemVersions(name, dir);
+		const match = versions.findLast((candidate) =>
+			Bun.semver.satisfies(candidate, version),
+		);
+		if (!match) {
+			return null;
+		}
+		file = Bun.file(path.join(dir, name, `${match}.json`));
+	}
+
+	if (!(await file.exists())) {
+		return null;
+	}
+	return registryItemSchema.parse(await file.json());
+}
+
+/**
+ * Like `getRegistryItem`, but validates the specifier against the manifest
+ * and throws a `RegistryError` describing why an item cannot be served.
+ * Errors for a private namespace's items name them as `@namespace/name`.
+ */
+export async function findRegistryItem(
+	specifier: string,
+	dir = REGISTRY_DIR,
+	namespace?: string,
+): Promise<RegistryItem> {
+	const { name, version } = parseItemSpecifier(specifier);
+	await assertRegistryItemName(name, dir, namespace);
+	const qualified = qualify(name, namespace);
+
+	if (version !== undefined && !VERSION_RANGE_PATTERN.test(version)) {
+		throw new RegistryError(
+			400,
+			"INVALID_VERSION",
+			`"${version}" is not a valid version or version range.`,
+		);
+	}
+
+	const item = await getRegistryItem(specifier, dir);
+	if (!item && version !== undefined) {
+		const versions = await getRegistryItemVersions(name, dir);
+		throw new RegistryError(
+			404,
+			"VERSION_NOT_FOUND",
+			`No published version of "${qualified}" satisfies "${version}".`,
+			versions.map((candidate) => `${qualified}@${candidate}`),
+		);
+	}
+	if (!item) {
+		throw new RegistryError(
+			404,
+			"ITEM_NOT_FOUND",
+			`Registry item "${qualified}" has not been built.`,
+		);
+	}
+	return item;
+}
+
+/** Throws unless `name` is a well-formed name listed in the manifest. */
+export async function assertRegistryItemName(
+	name: string,
+	dir = REGISTRY_DIR,
+	namespace?: string,
+) {
+	if (!ITEM_NAME_PATTERN.test(name)) {
+		throw new RegistryError(
+			400,
+			"INVALID_ITEM_NAME",
+			`"${name}" is not a valid registry item name. Names are lowercase and kebab-case.`,
+		);
+	}
+
+	const { items } = await getRegistry(dir);
+	const names = items.map((item) => item.name);
+	if (!names.includes(name)) {
+		throw new RegistryError(
+			404,
+			"ITEM_NOT_FOUND",
+			`Registry item "${qualify(name, namespace)}" not found.`,
+			suggest(name, names).map((match) => qualify(match, namespace)),
+		);
+	}
+}
+
+function qualify(name: string, namespace?: string) {
+	return namespace ? `${namespace}/${name}` : name;
+}
+
+/**
+ * Resolves `names` and their `registryDependencies` into one tree. A cycle is
+ * a problem with the requested item, not the server, so it is a 422.
+ */
+export async function resolveRegistryTree(
+	names: string[],
+	loadItem: RegistryItemLoader,
+) {
+	try {
+		return await resolveRegistryItemsTree(names, loadItem);
+	} catch (error) {
+		if (error instanceof CircularDependencyError) {
+			throw new RegistryError(
+				422,
+				"CIRCULAR_DEPENDENCY",
+				`${error.message}. Remove one of these registryDependencies.`,
+			);
+		}
+		throw error;
+	}
+}
+
+/** Lists the registry items, optionally filtered by type and category. */
+export function getRegistryIndex(
+	registry: Registry,
+	{ type, category }: RegistryIndexQuery = {},
+): RegistryIndexItem[] {
+	return registry.items
+		.filter((item) => !type || item.type === type)
+		.filter((item) => !category || item.categories?.includes(category))
+		.map((item) => ({
+			name: item.name,
+			title: item.title,
+			description: item.description,
+			type: item.type,
+			categories: item.categories,
+			dependencies: item.dependencies,
+		}));
+}
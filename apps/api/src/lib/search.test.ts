@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import type { Registry, RegistryItem } from "@bank-kit/registry/lib/schema";
+import { searchRegistry } from "./search";
+
+const registry: Registry = {
+	name: "bank-kit",
+	homepage: "https://bank-kit.com",
+	items: [
+		{
+			name: "transactions-table",
+			type: "registry:component",
+			title: "Transactions Table",
+			description: "A sortable table of account transactions",
+			categories: ["banking"],
+		},
+		{
+			name: "table",
+			type: "registry:ui",
+			title: "Table",
+			description: "A responsive table",
+		},
+		{
+			name: "pill",
+			type: "registry:component",
+			title: "Pill",
+			description: "A small status label for any view",
+		},
+		{
+			name: "statement-viewer",
+			type: "registry:component",
+			title: "Statement Viewer",
+			description: "Shows a monthly statement",
+		},
+	],
+};
+
+// Docs live in the built item rather than the manifest.
+async function loadItem(name: string): Promise<RegistryItem | null> {
+	return name === "statement-viewer"
+		? { name, type: "registry:component", docs: "Exports a PDF download." }
+		: null;
+}
+
+async function search(q: string, page = 1, perPage = 20) {
+	return searchRegistry(registry, { q, page, perPage }, loadItem);
+}
+
+describe("searchRegistry", () => {
+	test("ranks name matches above description matches", async () => {
+		const { items } = await search("view");
+
+		expect(items.map(({ name }) => name)).toEqual(["statement-viewer", "pill"]);
+		expect(items[0]?.score).toBeGreaterThan(items[1]?.score ?? 0);
+	});
+
+	test("ranks exact matches above prefix matches", async () => {
+		const exact = await search("table");
+		const prefix = await search("tab");
+
+		expect(exact.items[0]?.score).toBeGreaterThan(prefix.items[0]?.score ?? 0);
+	});
+
+	test("tolerates typos", async () => {
+		const { items } = await search("tabel");
+
+		expect(items.map(({ name }) => name)).toContain("table");
+	});
+
+	test("requires every term to match", async () => {
+		const { items } = await search("table banking");
+
+		expect(items.map(({ name }) => name)).toEqual(["transactions-table"]);
+	});
+
+	test("searches the docs of built items", async () => {
+		const { items } = await search("pdf");
+
+		expect(items.map(({ name }) => name)).toEqual(["statement-viewer"]);
+	});
+
+	test("pages the results and counts them all", async () => {
+		const result = await search("a", 2, 1);
+
+		expect(result.total).toBeGreaterThan(1);
+		expect(result.items).toHaveLength(1);
+		expect(result.page).toBe(2);
+	});
+
+	test("returns nothing for unrelated queries", async () => {
+		expect(await search("mortgage")).toMatchObject({ total: 0, items: [] });
+	});
+});
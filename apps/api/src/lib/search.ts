@@ -0,0 +1,120 @@
+import type { Registry, RegistryItem } from "@bank-kit/registry/lib/schema";
+import { z } from "zod";
+import { levenshtein } from "./fuzzy";
+import { type RegistryIndexItem, getRegistryIndex } from "./registry";
+
+export const registrySearchQuerySchema = z.object({
+	q: z.string().trim().min(1),
+	page: z.coerce.number().int().min(1).default(1),
+	perPage: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type RegistrySearchQuery = z.infer<typeof registrySearchQuerySchema>;
+
+export interface RegistrySearchResult {
+	query: string;
+	total: number;
+	page: number;
+	perPage: number;
+	items: (RegistryIndexItem & { score: number })[];
+}
+
+// How much a match in each field counts towards an item's score.
+const FIELD_WEIGHTS = {
+	name: 10,
+	title: 8,
+	categories: 5,
+	description: 3,
+	docs: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * Ranks registry items against a free-text query. Every query term is scored
+ * against each field — exact, prefix, substring and then typo-tolerant
+ * matches count for progressively less — and the best field wins per term.
+ *
+ * `loadItem` supplies the built item so its `docs` can be searched too.
+ */
+export async function searchRegistry(
+	registry: Registry,
+	{ q, page, perPage }: RegistrySearchQuery,
+	loadItem: (name: string) => Promise<RegistryItem | null>,
+): Promise<RegistrySearchResult> {
+	const terms = tokenize(q);
+	const index = getRegistryIndex(registry);
+
+	const scored = await Promise.all(
+		registry.items.map(async (item, position) => {
+			const docs = item.docs ?? (await loadItem(item.name))?.docs;
+			const fields: Record<SearchField, string[]> = {
+				name: tokenize(item.name),
+				title: tokenize(item.title ?? ""),
+				categories: (item.categories ?? []).flatMap(tokenize),
+				description: tokenize(item.description ?? ""),
+				docs: tokenize(docs ?? ""),
+			};
+			return {
+				...(index[position] as RegistryIndexItem),
+				score: scoreItem(terms, fields),
+			};
+		}),
+	);
+
+	const matches = scored
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+	return {
+		query: q,
+		total: matches.length,
+		page,
+		perPage,
+		items: matches.slice((page - 1) * perPage, page * perPage),
+	};
+}
+
+function tokenize(text: string) {
+	return text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+}
+
+function scoreItem(terms: string[], fields: Record<SearchField, string[]>) {
+	let total = 0;
+	for (const term of terms) {
+		let best = 0;
+		for (const [field, tokens] of Object.entries(fields)) {
+			const weight = FIELD_WEIGHTS[field as SearchField];
+			best = Math.max(best, weight * matchTerm(term, tokens));
+		}
+		// Every term has to match somewhere for the item to be a result.
+		if (best === 0) {
+			return 0;
+		}
+		total += best;
+	}
+	return Math.round(total * 100) / 100;
+}
+
+function matchTerm(term: string, tokens: string[]) {
+	// Allow one typo in short terms and two in longer ones.
+	const maxTypos = term.length >= 7 ? 2 : term.length >= 4 ? 1 : 0;
+
+	let best = 0;
+	for (const token of tokens) {
+		if (token === term) {
+			return 1;
+		}
+		if (token.startsWith(term)) {
+			best = Math.max(best, 0.8);
+		} else if (token.includes(term)) {
+			best = Math.max(best, 0.6);
+		} else if (maxTypos > 0 && levenshtein(term, token) <= maxTypos) {
+			best = Math.max(best, 0.4);
+		}
+	}
+	return best;
+}
@@ -1,25 +1,134 @@
+import { RegistryError } from "./lib/errors";
+import { broadcast, createEventStream } from "./lib/events";
+import { jsonResponse, parseQuery } from "./lib/http";
+import {
+	type Namespace,
+	authorizeNamespace,
+	createItemLoader,
+} from "./lib/namespaces";
+import {
+	assertRegistryItemName,
+	findRegistryItem,
+	getRegistry,
+	getRegistryIndex,
+	getRegistryItem,
+	getRegistryItemVersions,
+	parseItemSpecifier,
+	registryIndexQuerySchema,
+	resolveRegistryTree,
+} from "./lib/registry";
+import { registrySearchQuerySchema, searchRegistry } from "./lib/search";
+
+async function serveItem(req: Request, specifier: string, scope?: Namespace) {
+	const item = await findRegistryItem(specifier, scope?.dir, scope?.name);
+	// Only an exact version pin is immutable; ranges move as we publish.
+	const { version } = parseItemSpecifier(specifier);
+	return jsonResponse(req, item, {
+		immutable: version !== undefined && version === item.version,
+		private: scope !== undefined && !scope.public,
+	});
+}
+
+async function serveVersions(req: Request, name: string, scope?: Namespace) {
+	await assertRegistryItemName(name, scope?.dir, scope?.name);
+	const versions = await getRegistryItemVersions(name, scope?.dir);
+	return jsonResponse(
+		req,
+		{ name: scope ? `${scope.name}/${name}` : name, versions },
+		{ private: scope !== undefined && !scope.public },
+	);
+}
+
+async function serveResolved(
+	req: Request,
+	specifier: string,
+	scope?: Namespace,
+) {
+	await findRegistryItem(specifier, scope?.dir, scope?.name);
+	const tree = await resolveRegistryTree(
+		[scope ? `${scope.name}/${specifier}` : specifier],
+		createItemLoader(req),
+	);
+	return jsonResponse(req, tree, {
+		private: scope !== undefined && !scope.public,
+	});
+}
+
+const isDevelopment = Bun.env.NODE_ENV === "development";
+
+if (isDevelopment) {
+	// Serve straight from the registry sources instead of a prepared copy, and
+	// tell `/api/registry/events` subscribers whenever an item is rebuilt.
+	// Imported here because the sources are not part of the compiled server.
+	const { buildRegistry, watchRegistry } = await import("./lib/dev");
+	await buildRegistry();
+	await watchRegistry((items) => broadcast("change", { items }));
+}
+
 const server = Bun.serve({
 	routes: {
-		"/api/registry/:name": async (req) => {
-			const file = await Bun.file(`public/r/${req.params.name}.json`).json();
-			return Response.json(file);
+		"/api/registry/events": (req, server) => {
+			if (!isDevelopment) {
+				throw new RegistryError(404, "NOT_FOUND", "Not Found");
+			}
+			// Bun closes idle connections after 10s, which would end the stream.
+			server.timeout(req, 0);
+			return createEventStream();
+		},
+		"/api/registry": async (req) => {
+			const query = parseQuery(req, registryIndexQuerySchema);
+			const registry = await getRegistry();
+			return jsonResponse(req, getRegistryIndex(registry, query));
+		},
+		"/api/registry/search": async (req) => {
+			const query = parseQuery(req, registrySearchQuerySchema);
+			const registry = await getRegistry();
+			return jsonResponse(
+				req,
+				await searchRegistry(registry, query, getRegistryItem),
+			);
 		},
+		"/api/registry/:name": (req) => serveItem(req, req.params.name),
+		"/api/registry/:name/versions": (req) =>
+			serveVersions(req, req.params.name),
+		"/api/registry/:name/resolved": (req) =>
+			serveResolved(req, req.params.name),
+		"/api/registry/:namespace/:name": async (req) =>
+			serveItem(
+				req,
+				req.params.name,
+				await authorizeNamespace(req, req.params.namespace),
+			),
+		"/api/registry/:namespace/:name/versions": async (req) =>
+			serveVersions(
+				req,
+				req.params.name,
+				await authorizeNamespace(req, req.params.namespace),
+			),
+		"/api/registry/:namespace/:name/resolved": async (req) =>
+			serveResolved(
+				req,
+				req.params.name,
+				await authorizeNamespace(req, req.params.namespace),
+			),
 	},
 	fetch(req) {
-		return new Response("Not Found", { status: 404 });
+		return new RegistryError(404, "NOT_FOUND", "Not Found").toResponse();
 	},
 	error(error) {
+		if (error instanceof RegistryError) {
+			return error.toResponse();
+		}
 		console.error(error);
-		return new Response(`Internal Error: ${error.message}`, {
-			status: 500,
-			headers: {
-				"Content-Type": "text/plain",
-			},
-		});
+		return new RegistryError(
+			500,
+			"INTERNAL_ERROR",
+			"Internal Error",
+		).toResponse();
 	},
 	port: Bun.env.PORT || 8080,
 	development: {
-		hmr: Bun.env.NODE_ENV === "development",
+		hmr: isDevelopment,
 	},
 });
 
@@ -0,0 +1,136 @@
+import path from "node:path";
+import type { RegistryLockfile } from "@bank-kit/registry/lib/schema";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import { type Config, getRegistryUrl, requireConfig } from "../../lib/config";
+import { getFileTarget, transformImports } from "../../lib/files";
+import {
+	type InstalledItem,
+	LOCKFILE,
+	getLockfile,
+	getLockfileItem,
+	lockRegistryItems,
+	writeLockfile,
+} from "../../lib/lockfile";
+import { logger } from "../../lib/logger";
+import { installDependencies } from "../../lib/package-manager";
+import { fetchRegistryItem, resolveRegistryItems } from "../../lib/registry";
+
+export const add = defineCommand({
+	description: "Add registry items and their dependencies to the project",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			overwrite: z.boolean().default(false),
+			registry: z.string().url().optional(),
+		}),
+		{ c: "cwd", o: "overwrite", r: "registry" },
+	),
+	args: z.array(z.string()),
+	async action(options, names) {
+		const cwd = path.resolve(options.cwd);
+		const config = await requireConfig(cwd);
+		const lockfile = await getLockfile(cwd);
+
+		let items: InstalledItem[];
+		let unresolved: string[] = [];
+		if (names.length > 0) {
+			const registryUrl = getRegistryUrl(options.registry);
+			const resolved = await resolveRegistryItems(registryUrl, names);
+			items = resolved.items.map((entry) => ({ ...entry, registryUrl }));
+			unresolved = resolved.unresolved;
+		} else {
+			items = await fetchLockedItems(lockfile, config, cwd);
+			if (items.length === 0) {
+				throw new Error("Pass the items to add, e.g. `bank-kit add pill`.");
+			}
+		}
+
+		const dependencies = new Set<string>();
+		const devDependencies = new Set<string>();
+		// Items with a file left as it was keep their lock entry, if any.
+		const skipped = new Set<string>();
+		for (const { name, item } of items) {
+			for (const file of item.files ?? []) {
+				if (file.content === undefined) {
+					throw new Error(`${item.name}: ${file.path} has no content.`);
+				}
+				const target = await getFileTarget(file, config, cwd);
+				const relative = path.relative(cwd, target);
+				const content = transformImports(file.content, config);
+
+				const existing = Bun.file(target);
+				if (await existing.exists()) {
+					if ((await existing.text()) === content) {
+						logger.debug(`Unchanged ${relative}`);
+						continue;
+					}
+					if (!options.overwrite) {
+						logger.warn(`Skipped ${relative}: it exists. Use --overwrite.`);
+						skipped.add(name);
+						continue;
+					}
+				}
+				await Bun.write(target, content);
+				logger.info(`Wrote ${relative}`);
+			}
+			for (const dependency of item.dependencies ?? []) {
+				dependencies.add(dependency);
+			}
+			for (const dependency of item.devDependencies ?? []) {
+				devDependencies.add(dependency);
+			}
+		}
+
+		await lockRegistryItems(
+			lockfile,
+			items.filter(({ name }) => !skipped.has(name)),
+			names,
+			config,
+			cwd,
+		);
+		await writeLockfile(cwd, lockfile);
+		await installDependencies(cwd, [...dependencies]);
+		await installDependencies(cwd, [...devDependencies], { dev: true });
+
+		logger.success(`Added ${items.map(({ name }) => name).join(", ")}.`);
+		if (unresolved.length > 0) {
+			logger.warn(
+				`Not in the bank-kit registry: ${unresolved.join(", ")}. Add them with \`npx shadcn@latest add ${unresolved.join(" ")}\`.`,
+			);
+		}
+	},
+});
+
+/**
+ * Fetches every item in the lockfile at its locked version from the registry
+ * it came from, so a fresh checkout installs exactly what the lockfile lists.
+ */
+async function fetchLockedItems(
+	lockfile: RegistryLockfile,
+	config: Config,
+	cwd: string,
+): Promise<InstalledItem[]> {
+	return Promise.all(
+		Object.entries(lockfile.items).map(async ([name, locked]) => {
+			const specifier = locked.version ? `${name}@${locked.version}` : name;
+			const item = await fetchRegistryItem(locked.registry, specifier);
+			if (!item) {
+				throw new Error(`${specifier} is no longer in ${locked.registry}.`);
+			}
+
+			const { files } = await getLockfileItem(
+				item,
+				locked.registry,
+				config,
+				cwd,
+			);
+			if (JSON.stringify(files) !== JSON.stringify(locked.files)) {
+				logger.warn(
+					`${specifier} differs from ${LOCKFILE}: it changed in the registry or your aliases changed.`,
+				);
+			}
+			return { name, item, registryUrl: locked.registry };
+		}),
+	);
+}
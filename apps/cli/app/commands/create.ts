@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import {
+	ITEM_KINDS,
+	createRegistryItem,
+	findMonorepoRoot,
+} from "../../lib/create";
+import { logger } from "../../lib/logger";
+
+export const create = defineCommand({
+	description: "Scaffold a new registry item in the bank-kit monorepo",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			description: z.string().optional(),
+		}),
+		{ c: "cwd", d: "description" },
+	),
+	args: z.array(z.string()),
+	async action(options, args) {
+		const [kind, name] = args;
+		if (!kind || !name) {
+			throw new Error(
+				`Pass a kind and a name, e.g. \`bank-kit create component balance-card\`. Kinds: ${ITEM_KINDS.join(", ")}.`,
+			);
+		}
+		const parsed = z.enum(ITEM_KINDS).safeParse(kind);
+		if (!parsed.success) {
+			throw new Error(
+				`Unknown kind "${kind}". Use one of ${ITEM_KINDS.join(", ")}.`,
+			);
+		}
+
+		const root = findMonorepoRoot(options.cwd);
+		const files = await createRegistryItem(root, parsed.data, name, {
+			description: options.description,
+		});
+
+		for (const file of files) {
+			logger.info(`Wrote ${file}`);
+		}
+		logger.success(`Created ${kind} ${name}.`);
+		logger.log(
+			"Run `bun run build` in packages/registry to publish it to the registry.",
+		);
+	},
+});
@@ -0,0 +1,94 @@
+import path from "node:path";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import { getRegistryUrl, requireConfig } from "../../lib/config";
+import { diffRegistryItem } from "../../lib/diff";
+import { getLockfile } from "../../lib/lockfile";
+import { logger } from "../../lib/logger";
+import { fetchRegistryIndex, fetchRegistryItem } from "../../lib/registry";
+
+export const diff = defineCommand({
+	description: "Show upstream changes to installed registry items",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			registry: z.string().url().optional(),
+		}),
+		{ c: "cwd", r: "registry" },
+	),
+	args: z.array(z.string()),
+	async action(options, names) {
+		const cwd = path.resolve(options.cwd);
+		const config = await requireConfig(cwd);
+		const registryUrl = getRegistryUrl(options.registry);
+		const lockfile = await getLockfile(cwd);
+
+		// Without names, check the items in the lockfile, or every registry
+		// item with files in the project when there is no lockfile.
+		const locked = Object.keys(lockfile.items);
+		const candidates =
+			names.length > 0
+				? names
+				: locked.length > 0
+					? locked
+					: (await fetchRegistryIndex(registryUrl)).map((item) => item.name);
+
+		const changed: { name: string; files: number }[] = [];
+		for (const name of candidates) {
+			// Like `update`, compare against the registry an item came from.
+			const installedFrom = options.registry
+				? registryUrl
+				: (lockfile.items[name]?.registry ?? registryUrl);
+			const item = await fetchRegistryItem(installedFrom, name);
+			if (!item) {
+				throw new Error(`Registry item "${name}" not found.`);
+			}
+			const diffs = await diffRegistryItem(item, config, cwd);
+			if (!diffs) {
+				if (names.length > 0) {
+					logger.warn(`${name} is not installed.`);
+				}
+				continue;
+			}
+			if (diffs.length === 0) {
+				logger.debug(`${name} is up to date.`);
+				continue;
+			}
+
+			changed.push({ name, files: diffs.length });
+			for (const { patch } of diffs) {
+				logger.log(colorize(patch));
+			}
+		}
+
+		if (changed.length === 0) {
+			logger.success("No upstream changes.");
+			return;
+		}
+		logger.info("Items with upstream changes:");
+		for (const { name, files } of changed) {
+			logger.log(`  ${name} (${files} ${files === 1 ? "file" : "files"})`);
+		}
+	},
+});
+
+function colorize(patch: string) {
+	if (!process.stdout.isTTY) {
+		return patch;
+	}
+	return patch
+		.split("\n")
+		.map((line) => {
+			if (line.startsWith("+") && !line.startsWith("+++")) {
+				return `\x1b[32m${line}\x1b[0m`;
+			}
+			if (line.startsWith("-") && !line.startsWith("---")) {
+				return `\x1b[31m${line}\x1b[0m`;
+			}
+			if (line.startsWith("@@")) {
+				return `\x1b[36m${line}\x1b[0m`;
+			}
+			return line;
+		})
+		.join("\n");
+}
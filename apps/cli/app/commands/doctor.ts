@@ -0,0 +1,80 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import { requireConfig } from "../../lib/config";
+import { type Diagnostic, diagnoseProject } from "../../lib/doctor";
+import { LOCKFILE, getLockfile } from "../../lib/lockfile";
+import { logger } from "../../lib/logger";
+import { fetchRegistryItem } from "../../lib/registry";
+
+export const doctor = defineCommand({
+	description:
+		"Check the project setup and the requirements of installed items",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			fix: z.boolean().default(false),
+		}),
+		{ c: "cwd" },
+	),
+	args: z.array(z.string()),
+	async action(options) {
+		const cwd = path.resolve(options.cwd);
+		const config = await requireConfig(cwd);
+		const lockfile = await getLockfile(cwd);
+
+		const items: RegistryItem[] = [];
+		const diagnostics: Diagnostic[] = [];
+		for (const [name, locked] of Object.entries(lockfile.items)) {
+			const specifier = locked.version ? `${name}@${locked.version}` : name;
+			const item = await fetchRegistryItem(locked.registry, specifier);
+			if (!item) {
+				diagnostics.push({
+					level: "warn",
+					message: `${specifier} from ${LOCKFILE} is no longer in ${locked.registry}.`,
+				});
+				continue;
+			}
+			items.push(item);
+
+			for (const file of locked.files) {
+				if (!existsSync(path.join(cwd, file.path))) {
+					diagnostics.push({
+						level: "warn",
+						message: `${file.path} from ${name} was deleted.`,
+						hint: `Restore it with \`bank-kit add ${name} --overwrite\`, or remove ${name} from ${LOCKFILE}.`,
+					});
+				}
+			}
+		}
+		diagnostics.push(...(await diagnoseProject(cwd, config, items)));
+
+		let remaining = 0;
+		for (const diagnostic of diagnostics) {
+			if (options.fix && diagnostic.fix) {
+				await diagnostic.fix();
+				logger.success(`Fixed: ${diagnostic.message}`);
+				continue;
+			}
+
+			logger[diagnostic.level](diagnostic.message);
+			if (diagnostic.hint) {
+				logger.log(`  ${diagnostic.hint}`);
+			} else if (diagnostic.fix) {
+				logger.log("  Run `bank-kit doctor --fix` to fix it.");
+			}
+			if (diagnostic.level === "error") {
+				remaining++;
+			}
+		}
+
+		if (diagnostics.length === 0) {
+			logger.success("No problems found.");
+		}
+		if (remaining > 0) {
+			process.exitCode = 1;
+		}
+	},
+});
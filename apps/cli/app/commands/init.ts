@@ -0,0 +1,92 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import {
+	CONFIG_FILE,
+	type Config,
+	getConfig,
+	writeConfig,
+} from "../../lib/config";
+import { logger } from "../../lib/logger";
+
+const CSS_CANDIDATES = [
+	"src/app/globals.css",
+	"app/globals.css",
+	"src/styles/globals.css",
+	"styles/globals.css",
+	"src/index.css",
+	"src/globals.css",
+];
+
+export const init = defineCommand({
+	description: `Write a ${CONFIG_FILE} for the project`,
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			style: z.string().default("new-york"),
+			color: z.string().default("neutral"),
+			css: z.string().optional(),
+			force: z.boolean().default(false),
+		}),
+		{ c: "cwd", s: "style", f: "force" },
+	),
+	args: z.array(z.string()),
+	async action(options) {
+		const cwd = path.resolve(options.cwd);
+
+		if (!options.force && (await getConfig(cwd))) {
+			throw new Error(
+				`${CONFIG_FILE} already exists in ${cwd}. Use --force to overwrite it.`,
+			);
+		}
+
+		const css =
+			options.css ??
+			CSS_CANDIDATES.find((file) => existsSync(path.join(cwd, file)));
+		if (!css) {
+			throw new Error(
+				"Could not find a global CSS file. Pass its path with --css.",
+			);
+		}
+
+		const config: Config = {
+			$schema: "https://ui.shadcn.com/schema.json",
+			style: options.style,
+			rsc: await usesReactServerComponents(cwd),
+			tsx: existsSync(path.join(cwd, "tsconfig.json")),
+			tailwind: {
+				config: "",
+				css,
+				baseColor: options.color,
+				cssVariables: true,
+				prefix: "",
+			},
+			aliases: {
+				components: "@/components",
+				utils: "@/lib/utils",
+				ui: "@/components/ui",
+				lib: "@/lib",
+				hooks: "@/hooks",
+			},
+			iconLibrary: "lucide",
+		};
+		await writeConfig(cwd, config);
+
+		logger.success(`Wrote ${path.join(cwd, CONFIG_FILE)}.`);
+		logger.log("Add components with `bank-kit add <item>`.");
+	},
+});
+
+/** Next.js app router projects render components on the server by default. */
+async function usesReactServerComponents(cwd: string) {
+	const file = Bun.file(path.join(cwd, "package.json"));
+	if (!(await file.exists())) {
+		return false;
+	}
+	const { dependencies = {}, devDependencies = {} } = await file.json();
+	return (
+		"next" in { ...dependencies, ...devDependencies } &&
+		(existsSync(path.join(cwd, "app")) || existsSync(path.join(cwd, "src/app")))
+	);
+}
@@ -0,0 +1,57 @@
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import { getRegistryUrl } from "../../lib/config";
+import { getLockfile } from "../../lib/lockfile";
+import { logger } from "../../lib/logger";
+import { fetchRegistryIndex } from "../../lib/registry";
+
+export const list = defineCommand({
+	description: "List registry items",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			registry: z.string().url().optional(),
+			type: z.string().optional(),
+			category: z.string().optional(),
+		}),
+		{ c: "cwd", r: "registry", t: "type" },
+	),
+	args: z.array(z.string()),
+	async action(options) {
+		const cwd = path.resolve(options.cwd);
+		const index = await fetchRegistryIndex(getRegistryUrl(options.registry));
+
+		const items = index.filter(
+			(item) =>
+				(!options.type ||
+					item.type === options.type ||
+					item.type === `registry:${options.type}`) &&
+				(!options.category || item.categories?.includes(options.category)),
+		);
+		await printItems(items, cwd);
+	},
+});
+
+/**
+ * Prints one row per item with its type and categories. Items in the
+ * lockfile are marked as installed.
+ */
+export async function printItems(items: RegistryItem[], cwd: string) {
+	if (items.length === 0) {
+		logger.log("No items found.");
+		return;
+	}
+
+	const installed = (await getLockfile(cwd)).items;
+	const width = Math.max(...items.map((item) => item.name.length));
+	for (const item of items) {
+		const marker = item.name in installed ? "✓" : " ";
+		const type = item.type.replace(/^registry:/, "").padEnd(9);
+		const categories = item.categories?.join(", ") ?? "";
+		logger.log(
+			`${marker} ${item.name.padEnd(width)}  ${type}  ${categories}`.trimEnd(),
+		);
+	}
+}
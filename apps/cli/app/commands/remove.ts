@@ -0,0 +1,89 @@
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import { LOCKFILE, getLockfile, writeLockfile } from "../../lib/lockfile";
+import { logger } from "../../lib/logger";
+import { uninstallDependencies } from "../../lib/package-manager";
+import { fetchRegistryItem } from "../../lib/registry";
+import { planRemovalKeepingModified, removeItemFiles } from "../../lib/remove";
+
+export const remove = defineCommand({
+	description: "Remove installed items and the dependencies only they needed",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			force: z.boolean().default(false),
+			uninstall: z.boolean().default(false),
+		}),
+		{ c: "cwd", f: "force", u: "uninstall" },
+	),
+	args: z.array(z.string()),
+	async action(options, names) {
+		if (names.length === 0) {
+			throw new Error("Pass the items to remove, e.g. `bank-kit remove pill`.");
+		}
+
+		const cwd = path.resolve(options.cwd);
+		const lockfile = await getLockfile(cwd);
+		for (const name of names) {
+			if (!lockfile.items[name]) {
+				throw new Error(`${name} is not in ${LOCKFILE}.`);
+			}
+		}
+
+		// The locked versions give the dependency tree as it was installed.
+		const items = new Map<string, RegistryItem>();
+		for (const [name, locked] of Object.entries(lockfile.items)) {
+			const specifier = locked.version ? `${name}@${locked.version}` : name;
+			const item = await fetchRegistryItem(locked.registry, specifier);
+			if (item) {
+				items.set(name, item);
+			} else {
+				logger.warn(
+					`${specifier} is no longer in ${locked.registry}. Its dependencies are not considered.`,
+				);
+			}
+		}
+
+		// Items with edited files stay, and so does whatever only they need.
+		const plan = await planRemovalKeepingModified(names, lockfile, items, cwd, {
+			force: options.force,
+		});
+		for (const [name, modified] of plan.kept) {
+			// Keep the entry so `diff` and `update` still track the kept files.
+			logger.warn(
+				`Kept ${name}: ${modified.join(", ")} modified since install. Use --force to delete.`,
+			);
+		}
+		for (const name of plan.items) {
+			const { deleted } = await removeItemFiles(
+				name,
+				lockfile,
+				plan.items,
+				cwd,
+				{ force: options.force },
+			);
+			for (const file of deleted) {
+				logger.info(`Deleted ${file}`);
+			}
+			delete lockfile.items[name];
+		}
+		await writeLockfile(cwd, lockfile);
+
+		if (plan.items.length > 0) {
+			logger.success(`Removed ${plan.items.join(", ")}.`);
+		}
+
+		if (plan.packages.length === 0) {
+			return;
+		}
+		if (options.uninstall) {
+			await uninstallDependencies(cwd, plan.packages);
+		} else {
+			logger.log(
+				`No other item uses ${plan.packages.join(", ")}. Uninstall them with --uninstall if your code does not either.`,
+			);
+		}
+	},
+});
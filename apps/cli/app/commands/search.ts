@@ -0,0 +1,30 @@
+import path from "node:path";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import { getRegistryUrl } from "../../lib/config";
+import { searchRegistry } from "../../lib/registry";
+import { printItems } from "./list";
+
+export const search = defineCommand({
+	description:
+		"Search registry items by name, title, description, category or docs",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			registry: z.string().url().optional(),
+		}),
+		{ c: "cwd", r: "registry" },
+	),
+	args: z.array(z.string()),
+	async action(options, terms) {
+		if (terms.length === 0) {
+			throw new Error("Pass a search query, e.g. `bank-kit search table`.");
+		}
+
+		const items = await searchRegistry(
+			getRegistryUrl(options.registry),
+			terms.join(" "),
+		);
+		await printItems(items, path.resolve(options.cwd));
+	},
+});
@@ -0,0 +1,121 @@
+import path from "node:path";
+import { z } from "zod";
+import { defineCommand, defineOptions } from "zodest/config";
+import { getRegistryUrl, requireConfig } from "../../lib/config";
+import {
+	LOCKFILE,
+	getLockfile,
+	getLockfileItem,
+	writeLockfile,
+} from "../../lib/lockfile";
+import { logger } from "../../lib/logger";
+import { installDependencies } from "../../lib/package-manager";
+import { fetchRegistryItem } from "../../lib/registry";
+import { updateRegistryItem } from "../../lib/update";
+
+export const update = defineCommand({
+	description: "Update installed registry items, keeping local changes",
+	options: defineOptions(
+		z.object({
+			cwd: z.string().default(process.cwd()),
+			registry: z.string().url().optional(),
+		}),
+		{ c: "cwd", r: "registry" },
+	),
+	args: z.array(z.string()),
+	async action(options, names) {
+		const cwd = path.resolve(options.cwd);
+		const config = await requireConfig(cwd);
+		const lockfile = await getLockfile(cwd);
+
+		const conflicts: string[] = [];
+		const removed: string[] = [];
+		for (const name of names.length > 0 ? names : Object.keys(lockfile.items)) {
+			const installed = lockfile.items[name];
+			if (!installed) {
+				logger.warn(
+					`${name} is not in ${LOCKFILE}. Reinstall it with \`bank-kit add ${name} --overwrite\`.`,
+				);
+				continue;
+			}
+			if (!installed.version) {
+				logger.warn(`${name} was installed without a version. Skipping it.`);
+				continue;
+			}
+
+			// Items update from the registry they were installed from.
+			const registryUrl = options.registry
+				? getRegistryUrl(options.registry)
+				: installed.registry;
+			const upstream = await fetchRegistryItem(registryUrl, name);
+			if (!upstream) {
+				throw new Error(`Registry item "${name}" not found.`);
+			}
+			if (!upstream.version || upstream.version === installed.version) {
+				logger.debug(`${name} is up to date.`);
+				continue;
+			}
+
+			const base = await fetchRegistryItem(
+				registryUrl,
+				`${name}@${installed.version}`,
+			);
+			if (!base) {
+				throw new Error(
+					`${name}@${installed.version} is no longer in the registry.`,
+				);
+			}
+
+			const result = await updateRegistryItem(base, upstream, config, cwd);
+			for (const file of result.updated) {
+				logger.info(`Updated ${file}`);
+			}
+			for (const file of result.skipped) {
+				logger.warn(`Skipped ${file}: it was deleted locally.`);
+			}
+			conflicts.push(...result.conflicts);
+			removed.push(...result.removed);
+
+			const added = (upstream.dependencies ?? []).filter(
+				(dependency) => !base.dependencies?.includes(dependency),
+			);
+			await installDependencies(cwd, added);
+
+			const required = (upstream.registryDependencies ?? []).filter(
+				(dependency) => !base.registryDependencies?.includes(dependency),
+			);
+			if (required.length > 0) {
+				logger.warn(
+					`${name} now needs ${required.join(", ")}. Run \`bank-kit add ${required.join(" ")}\`.`,
+				);
+			}
+
+			lockfile.items[name] = {
+				...(await getLockfileItem(upstream, registryUrl, config, cwd)),
+				dependency: installed.dependency,
+			};
+			logger.success(
+				`Updated ${name} from ${installed.version} to ${upstream.version}.`,
+			);
+		}
+
+		await writeLockfile(cwd, lockfile);
+
+		if (removed.length > 0) {
+			logger.warn(
+				"These files were removed upstream and are no longer tracked. Delete them once nothing imports them:",
+			);
+			for (const file of removed) {
+				logger.log(`  ${file}`);
+			}
+		}
+
+		if (conflicts.length > 0) {
+			logger.error("Resolve the conflict markers in:");
+			for (const file of conflicts) {
+				logger.log(`  ${file}`);
+			}
+			process.exitCode = 1;
+		}
+	},
+});
@@ -1,6 +1,17 @@
+#!/usr/bin/env bun
 import { z } from "zod";
 import { processConfig } from "zodest";
-import { defineCommand, defineConfig, defineOptions } from "zodest/config";
+import { defineConfig, defineOptions } from "zodest/config";
+import { logger } from "../lib/logger";
+import { add } from "./commands/add";
+import { create } from "./commands/create";
+import { diff } from "./commands/diff";
+import { doctor } from "./commands/doctor";
+import { init } from "./commands/init";
+import { list } from "./commands/list";
+import { remove } from "./commands/remove";
+import { search } from "./commands/search";
+import { update } from "./commands/update";
 
 const globalOptions = defineOptions(
 	z.object({
@@ -8,31 +19,26 @@ const globalOptions = defineOptions(
 	}),
 );
 
-// const config = defineConfig({
-// 	globalOptions,
-// 	commands: {
-// 		serve: defineCommand({
-// 			description: "Start development server",
-// 			options: defineOptions(
-// 				z.object({
-// 					port: z.coerce.number().min(1024).default(3000),
-// 				}),
-// 				{ p: "port" }, // aliases, type-safe with the schema
-// 			),
-// 			args: z.array(z.string()),
-// 			action(options, args) {
-// 				console.log("Server starting on port", options.port);
-// 			},
-// 		}),
-// 	},
-// });
+const config = defineConfig({
+	globalOptions,
+	commands: {
+		init,
+		add,
+		diff,
+		update,
+		remove,
+		doctor,
+		list,
+		search,
+		create,
+	},
+});
 
-// Process CLI arguments, returns the matching command
-// const result = processConfig(config, process.argv.slice(2));
-
-// console.log("result:", result._kind, result);
-// => result._kind == 'serve', the matching command's name
-// in `result` there's also `result.globalOptions`, and so on, all type-safe
-
-// call the command
-// result.command.action(result.options, result.args);
+try {
+	const result = processConfig(config, process.argv.slice(2));
+	logger.verbose = result.globalOptions.verbose;
+	await result.command.action(result.options, result.args);
+} catch (error) {
+	logger.error(error instanceof Error ? error.message : String(error));
+	process.exit(1);
+}
@@ -0,0 +1,64 @@
+import { mkdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { z } from "zod";
+
+/**
+ * Per-registry cache directory under `$BANK_KIT_CACHE_DIR` when set, else
+ * `$XDG_CACHE_HOME/bank-kit` (or `~/.cache/bank-kit`), keyed by a hash of the
+ * registry URL.
+ */
+export function getCacheDir(registryUrl: string) {
+	const root =
+		process.env.BANK_KIT_CACHE_DIR ??
+		path.join(
+			process.env.XDG_CACHE_HOME ?? path.join(homedir(), ".cache"),
+			"bank-kit",
+		);
+	return path.join(root, Bun.hash(registryUrl).toString(16));
+}
+
+function cacheEntrySchema<T extends z.ZodTypeAny>(data: T) {
+	return z.object({
+		fetchedAt: z.string().datetime(),
+		etag: z.string().nullable(),
+		data,
+	});
+}
+
+export type CacheEntry<T> = {
+	fetchedAt: string;
+	etag: string | null;
+	data: T;
+};
+
+/**
+ * Reads `key` from the cache of `registryUrl`. Entries that no longer match
+ * `schema`, e.g. after a CLI upgrade, count as missing.
+ */
+export async function readCache<T extends z.ZodTypeAny>(
+	registryUrl: string,
+	key: string,
+	schema: T,
+): Promise<CacheEntry<z.infer<T>> | null> {
+	const file = Bun.file(path.join(getCacheDir(registryUrl), `${key}.json`));
+	if (!(await file.exists())) {
+		return null;
+	}
+	try {
+		const result = cacheEntrySchema(schema).safeParse(await file.json());
+		return result.success ? (result.data as CacheEntry<z.infer<T>>) : null;
+	} catch {
+		return null;
+	}
+}
+
+export async function writeCache<T>(
+	registryUrl: string,
+	key: string,
+	entry: CacheEntry<T>,
+) {
+	const dir = getCacheDir(registryUrl);
+	await mkdir(dir, { recursive: true });
+	await Bun.write(path.join(dir, `${key}.json`), JSON.stringify(entry));
+}
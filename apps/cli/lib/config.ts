@@ -0,0 +1,131 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+export const CONFIG_FILE = "components.json";
+
+export const DEFAULT_REGISTRY_URL = "https://bank-kit.com/api/registry";
+
+/**
+ * The shape of `components.json`, kept compatible with the shadcn CLI so both
+ * tools can share one config.
+ */
+export const configSchema = z.object({
+	$schema: z.string().optional(),
+	style: z.string(),
+	rsc: z.boolean().default(false),
+	tsx: z.boolean().default(true),
+	tailwind: z.object({
+		config: z.string().optional(),
+		css: z.string(),
+		baseColor: z.string(),
+		cssVariables: z.boolean().default(true),
+		prefix: z.string().default("").optional(),
+	}),
+	aliases: z.object({
+		components: z.string(),
+		utils: z.string(),
+		ui: z.string().optional(),
+		lib: z.string().optional(),
+		hooks: z.string().optional(),
+	}),
+	iconLibrary: z.string().optional(),
+});
+
+export type Config = z.infer<typeof configSchema>;
+
+/** Reads and validates `components.json` in `cwd`, or `null` when missing. */
+export async function getConfig(cwd: string): Promise<Config | null> {
+	const file = Bun.file(path.join(cwd, CONFIG_FILE));
+	if (!(await file.exists())) {
+		return null;
+	}
+	const result = configSchema.safeParse(await file.json());
+	if (!result.success) {
+		throw new Error(
+			`Invalid ${CONFIG_FILE}: ${result.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`).join(", ")}`,
+		);
+	}
+	return result.data;
+}
+
+/** Like `getConfig`, but points the user at `init` when there is no config. */
+export async function requireConfig(cwd: string) {
+	const config = await getConfig(cwd);
+	if (!config) {
+		throw new Error(
+			`No ${CONFIG_FILE} found in ${cwd}. Run \`bank-kit init\` first.`,
+		);
+	}
+	return config;
+}
+
+export async function writeConfig(cwd: string, config: Config) {
+	await Bun.write(
+		path.join(cwd, CONFIG_FILE),
+		`${JSON.stringify(config, null, 2)}\n`,
+	);
+}
+
+/**
+ * The registry to install from. `BANK_KIT_REGISTRY_URL` overrides the default
+ * so `components.json` stays valid for the shadcn CLI.
+ */
+export function getRegistryUrl(override?: string) {
+	return (
+		override ??
+		process.env.BANK_KIT_REGISTRY_URL ??
+		DEFAULT_REGISTRY_URL
+	).replace(/\/+$/, "");
+}
+
+/**
+ * Resolves an import alias such as `@/components/ui` to a directory, using the
+ * `paths` in the project's `tsconfig.json` (or `jsconfig.json`).
+ */
+export async function resolveAlias(cwd: string, alias: string) {
+	const paths = await getTsconfigPaths(cwd);
+	for (const [pattern, targets] of Object.entries(paths)) {
+		const prefix = pattern.replace(/\*$/, "");
+		const target = targets[0]?.replace(/\*$/, "");
+		if (target !== undefined && alias.startsWith(prefix)) {
+			return path.resolve(cwd, target, alias.slice(prefix.length));
+		}
+	}
+	// Without a matching `paths` entry, assume `@/` points at `src/` when the
+	// project has one, as create-next-app and Vite templates do.
+	const root = existsSync(path.join(cwd, "src")) ? path.join(cwd, "src") : cwd;
+	return path.resolve(root, alias.replace(/^[@~]\//, ""));
+}
+
+async function getTsconfigPaths(
+	cwd: string,
+): Promise<Record<string, string[]>> {
+	for (const name of ["tsconfig.json", "jsconfig.json"]) {
+		const file = Bun.file(path.join(cwd, name));
+		if (!(await file.exists())) {
+			continue;
+		}
+		const tsconfig = JSON.parse(stripJsonComments(await file.text()));
+		const { baseUrl = ".", paths = {} } = tsconfig.compilerOptions ?? {};
+		return Object.fromEntries(
+			Object.entries(paths as Record<string, string[]>).map(
+				([pattern, targets]) => [
+					pattern,
+					targets.map((target) => path.join(baseUrl, target)),
+				],
+			),
+		);
+	}
+	return {};
+}
+
+/** tsconfig files are JSONC: drop comments and trailing commas. */
+function stripJsonComments(text: string) {
+	return text
+		.replace(
+			/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+			(match, string) => string ?? "",
+		)
+		.replace(/,(\s*[}\]])/g, "$1");
+}
@@ -0,0 +1,176 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import {
+	type RegistryItem,
+	registryItemSchema,
+	registrySchema,
+} from "@bank-kit/registry/lib/schema";
+
+export const ITEM_KINDS = ["component", "block", "hook", "lib"] as const;
+
+export type ItemKind = (typeof ITEM_KINDS)[number];
+
+const ITEM_NAME_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+/** Walks up from `cwd` to the monorepo root, which holds the registry package. */
+export function findMonorepoRoot(cwd: string) {
+	let dir = path.resolve(cwd);
+	while (!existsSync(path.join(dir, "packages/registry/registry.json"))) {
+		const parent = path.dirname(dir);
+		if (parent === dir) {
+			throw new Error(
+				"`create` only works inside the bank-kit monorepo: packages/registry/registry.json was not found.",
+			);
+		}
+		dir = parent;
+	}
+	return dir;
+}
+
+/**
+ * Scaffolds a new registry item in the monorepo at `root`: the source file in
+ * `packages/registry/src/<name>`, its `registry.json` entry and a docs page,
+ * plus a docs demo for components and blocks. Returns the created files,
+ * relative to `root`.
+ */
+export async function createRegistryItem(
+	root: string,
+	kind: ItemKind,
+	name: string,
+	{ description }: { description?: string } = {},
+) {
+	if (!ITEM_NAME_PATTERN.test(name)) {
+		throw new Error(
+			`"${name}" is not a valid item name. Use kebab-case, e.g. "balance-card".`,
+		);
+	}
+	if (kind === "hook" && !name.startsWith("use-")) {
+		throw new Error(`Hook names start with "use-", e.g. "use-${name}".`);
+	}
+
+	const registryPath = path.join(root, "packages/registry/registry.json");
+	const registryJson = await Bun.file(registryPath).text();
+	const registry = registrySchema.parse(JSON.parse(registryJson));
+	if (registry.items.some((item) => item.name === name)) {
+		throw new Error(`registry.json already has an item named "${name}".`);
+	}
+
+	const title = name
+		.split("-")
+		.map((word) => word[0]?.toUpperCase() + word.slice(1))
+		.join(" ");
+	const extension = kind === "component" || kind === "block" ? "tsx" : "ts";
+	const type = `registry:${kind}` as const;
+	const item = registryItemSchema.parse({
+		name,
+		version: "0.1.0",
+		title,
+		description: description ?? `A ${title.toLowerCase()} ${kind}`,
+		type,
+		files: [{ path: `src/${name}/${name}.${extension}`, type }],
+	});
+
+	const templates = getTemplates(kind, item);
+	for (const file of Object.keys(templates)) {
+		if (existsSync(path.join(root, file))) {
+			throw new Error(`${file} already exists.`);
+		}
+	}
+	const updated = appendRegistryItem(registryJson, item);
+	registrySchema.parse(JSON.parse(updated));
+
+	for (const [file, content] of Object.entries(templates)) {
+		await Bun.write(path.join(root, file), content);
+	}
+	await Bun.write(registryPath, updated);
+
+	return [...Object.keys(templates), "packages/registry/registry.json"];
+}
+
+/**
+ * Inserts `item` at the end of the `items` array. Editing the text instead of
+ * re-serializing keeps the rest of `registry.json` untouched.
+ */
+function appendRegistryItem(registryJson: string, item: RegistryItem) {
+	const end = registryJson.lastIndexOf("]");
+	const before = registryJson.slice(0, end).trimEnd();
+	const entry = JSON.stringify(item, null, "\t").replace(/^/gm, "\t\t");
+	return `${before}${before.endsWith("[") ? "" : ","}\n${entry}\n\t${registryJson.slice(end)}`;
+}
+
+function getTemplates(kind: ItemKind, item: RegistryItem) {
+	const { name } = item;
+	const identifier = toIdentifier(name, kind === "hook" || kind === "lib");
+	const source = `packages/registry/${item.files?.[0]?.path}`;
+	const docs = `apps/docs/content/docs/components/${name}.mdx`;
+
+	const templates: Record<string, string> = {};
+	switch (kind) {
+		case "component":
+		case "block":
+			templates[source] = `import { cn } from "@bank-kit/ui/lib/utils";
+import type * as React from "react";
+
+export function ${identifier}({
+	className,
+	...props
+}: React.ComponentProps<"div">) {
+	return <div className={cn(className)} {...props} />;
+}
+`;
+			templates[`apps/docs/components/${name}.tsx`] =
+				`import { ${identifier} } from "@bank-kit/registry/${name}/${name}";
+
+export function ${identifier}Demo() {
+	return <${identifier} />;
+}
+`;
+			break;
+		case "hook":
+			templates[source] = `import * as React from "react";
+
+export function ${identifier}() {
+	const [value, setValue] = React.useState<unknown>(null);
+
+	return { value, setValue };
+}
+`;
+			break;
+		case "lib":
+			templates[source] = `export function ${identifier}() {}
+`;
+			break;
+	}
+
+	const demo =
+		kind === "component" || kind === "block"
+			? `import { ${identifier}Demo } from "@/components/${name}";
+
+`
+			: "";
+	templates[docs] = `---
+title: ${item.title}
+description: ${item.description}
+---
+
+${demo}## Overview
+
+${item.description}.
+${demo ? `\n## Demo\n\n<${identifier}Demo />\n` : ""}
+## Installation
+
+\`\`\`bash
+bunx @bank-kit/cli add ${name}
+\`\`\`
+`;
+	return templates;
+}
+
+/** `balance-card` -> `BalanceCard`, or `useBalance` for functions. */
+function toIdentifier(name: string, camelCase: boolean) {
+	const pascal = name
+		.split("-")
+		.map((word) => word[0]?.toUpperCase() + word.slice(1))
+		.join("");
+	return camelCase ? pascal[0]?.toLowerCase() + pascal.slice(1) : pascal;
+}
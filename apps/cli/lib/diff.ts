@@ -0,0 +1,65 @@
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { createTwoFilesPatch } from "diff";
+import type { Config } from "./config";
+import { getFileTarget, transformImports } from "./files";
+
+export interface FileDiff {
+	/** Target path relative to the project root. */
+	target: string;
+	/**
+	 * `modified` when the local file differs from the registry, `missing` when
+	 * it was deleted locally.
+	 */
+	status: "modified" | "missing";
+	/** Unified diff from the local file to the registry file. */
+	patch: string;
+}
+
+/**
+ * Compares the files of `item` with their local copies, after rewriting the
+ * registry's imports to the project's aliases. Returns `null` when none of the
+ * item's files exist locally, i.e. the item is not installed.
+ */
+export async function diffRegistryItem(
+	item: RegistryItem,
+	config: Config,
+	cwd: string,
+): Promise<FileDiff[] | null> {
+	const diffs: FileDiff[] = [];
+	let installed = false;
+
+	for (const file of item.files ?? []) {
+		const target = path.relative(cwd, await getFileTarget(file, config, cwd));
+		const upstream = transformImports(file.content ?? "", config);
+		const local = Bun.file(path.join(cwd, target));
+
+		if (!(await local.exists())) {
+			diffs.push({
+				target,
+				status: "missing",
+				patch: createTwoFilesPatch(target, target, "", upstream),
+			});
+			continue;
+		}
+		installed = true;
+
+		const content = await local.text();
+		if (content !== upstream) {
+			diffs.push({
+				target,
+				status: "modified",
+				patch: createTwoFilesPatch(
+					target,
+					target,
+					content,
+					upstream,
+					"local",
+					"registry",
+				),
+			});
+		}
+	}
+
+	return installed ? diffs : null;
+}
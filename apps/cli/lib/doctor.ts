@@ -0,0 +1,239 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import type { Config } from "./config";
+import { getPackageName, installDependencies } from "./package-manager";
+
+export interface Diagnostic {
+	level: "error" | "warn";
+	message: string;
+	/** What to do about it, when it cannot be fixed automatically. */
+	hint?: string;
+	/** Applies the fix. Only set for fixes that cannot break the project. */
+	fix?: () => Promise<void>;
+}
+
+const TAILWIND_CONFIG_FILES = [
+	"tailwind.config.ts",
+	"tailwind.config.js",
+	"tailwind.config.mjs",
+	"tailwind.config.cjs",
+];
+
+/**
+ * Checks the project setup against `components.json` and the requirements of
+ * `items`: npm dependencies, CSS variables and Tailwind config.
+ */
+export async function diagnoseProject(
+	cwd: string,
+	config: Config,
+	items: RegistryItem[],
+): Promise<Diagnostic[]> {
+	const diagnostics: Diagnostic[] = [];
+	const packages = await getInstalledPackages(cwd);
+
+	const missing = new Set<string>();
+	if (!packages.has("tailwindcss")) {
+		missing.add("tailwindcss");
+	}
+	for (const item of items) {
+		for (const dependency of item.dependencies ?? []) {
+			if (!packages.has(getPackageName(dependency))) {
+				missing.add(dependency);
+			}
+		}
+	}
+	if (missing.size > 0) {
+		diagnostics.push({
+			level: "error",
+			message: `Missing packages: ${[...missing].join(", ")}.`,
+			fix: () => installDependencies(cwd, [...missing]),
+		});
+	}
+
+	diagnostics.push(...(await diagnoseAliases(cwd, config)));
+
+	const tailwindConfig =
+		config.tailwind.config ||
+		TAILWIND_CONFIG_FILES.find((file) => existsSync(path.join(cwd, file)));
+	if (
+		config.tailwind.config &&
+		!existsSync(path.join(cwd, config.tailwind.config))
+	) {
+		diagnostics.push({
+			level: "error",
+			message: `Tailwind config ${config.tailwind.config} does not exist.`,
+			hint: "Fix tailwind.config in components.json, or set it to an empty string for Tailwind v4.",
+		});
+	}
+	for (const item of items) {
+		if (item.tailwind?.config && !tailwindConfig) {
+			diagnostics.push({
+				level: "warn",
+				message: `${item.name} extends the Tailwind config, but the project has no tailwind.config file.`,
+				hint: `Add the equivalent @theme values to ${config.tailwind.css}: ${JSON.stringify(item.tailwind.config)}`,
+			});
+		}
+	}
+
+	const cssPath = path.join(cwd, config.tailwind.css);
+	const css = Bun.file(cssPath);
+	if (!(await css.exists())) {
+		diagnostics.push({
+			level: "error",
+			message: `Global CSS file ${config.tailwind.css} does not exist.`,
+			hint: "Fix tailwind.css in components.json.",
+		});
+		return diagnostics;
+	}
+
+	const content = await css.text();
+	if (!tailwindConfig && !/@import\s+["']tailwindcss["']/.test(content)) {
+		diagnostics.push({
+			level: "error",
+			message: `${config.tailwind.css} does not import Tailwind.`,
+			hint: `Add @import "tailwindcss"; to the top of ${config.tailwind.css}.`,
+		});
+	}
+	if (config.tailwind.cssVariables) {
+		// `@theme inline` is Tailwind v4. v3 projects map theme colors in their
+		// tailwind.config instead, so a v4 block would only break their build.
+		const major = await getTailwindMajorVersion(cwd);
+		const isTailwindV3 =
+			major !== null
+				? major < 4
+				: Boolean(tailwindConfig) &&
+					!/@import\s+["']tailwindcss["']/.test(content);
+		const missingVars = getMissingCssVars(content, items, {
+			theme: !isTailwindV3,
+		});
+		if (missingVars) {
+			diagnostics.push({
+				level: "error",
+				message: `${config.tailwind.css} is missing CSS variables: ${missingVars.names.join(", ")}.`,
+				fix: async () => {
+					await Bun.write(cssPath, `${await css.text()}${missingVars.css}`);
+				},
+			});
+		}
+	}
+
+	return diagnostics;
+}
+
+/** Every alias in `components.json` should resolve through `tsconfig.json`. */
+async function diagnoseAliases(cwd: string, config: Config) {
+	const diagnostics: Diagnostic[] = [];
+	const prefixes = new Set(
+		Object.values(config.aliases).map((alias) => alias?.split("/")[0]),
+	);
+	for (const prefix of prefixes) {
+		if (!prefix || (await hasPathAlias(cwd, `${prefix}/*`))) {
+			continue;
+		}
+		const root = existsSync(path.join(cwd, "src")) ? "./src" : ".";
+		diagnostics.push({
+			level: "error",
+			message: `tsconfig.json has no path alias for ${prefix}/*, which components.json uses.`,
+			hint: `Add "paths": { "${prefix}/*": ["${root}/*"] } to compilerOptions in tsconfig.json.`,
+		});
+	}
+	return diagnostics;
+}
+
+async function hasPathAlias(cwd: string, pattern: string) {
+	for (const name of ["tsconfig.json", "jsconfig.json"]) {
+		const file = Bun.file(path.join(cwd, name));
+		if (await file.exists()) {
+			return (await file.text()).includes(`"${pattern}"`);
+		}
+	}
+	return false;
+}
+
+/** Names of the packages in `package.json` dependencies and devDependencies. */
+async function getInstalledPackages(cwd: string) {
+	const file = Bun.file(path.join(cwd, "package.json"));
+	if (!(await file.exists())) {
+		return new Set<string>();
+	}
+	const { dependencies = {}, devDependencies = {} } = await file.json();
+	return new Set(Object.keys({ ...dependencies, ...devDependencies }));
+}
+
+/**
+ * Major version of the project's Tailwind: the installed one, else the one
+ * `package.json` asks for. `null` when neither says.
+ */
+async function getTailwindMajorVersion(cwd: string) {
+	const installed = Bun.file(
+		path.join(cwd, "node_modules/tailwindcss/package.json"),
+	);
+	let version: string | undefined;
+	if (await installed.exists()) {
+		version = (await installed.json()).version;
+	} else {
+		const manifest = Bun.file(path.join(cwd, "package.json"));
+		if (await manifest.exists()) {
+			const { dependencies = {}, devDependencies = {} } = await manifest.json();
+			version = dependencies.tailwindcss ?? devDependencies.tailwindcss;
+		}
+	}
+	const major = version?.match(/\d+/)?.[0];
+	return major ? Number(major) : null;
+}
+
+// Where each kind of CSS variable lives, and the blocks already defining it.
+// Blocks nested in `@layer base`, as Tailwind v3 projects write them, count.
+const CSS_VAR_BLOCKS = {
+	theme: { selector: "@theme inline", pattern: /@theme\b[^{]*\{([^{}]*)\}/g },
+	light: { selector: ":root", pattern: /(?:^|[\s,}]):root\s*\{([^{}]*)\}/g },
+	dark: { selector: ".dark", pattern: /(?:^|[\s,}])\.dark\s*\{([^{}]*)\}/g },
+} as const;
+
+/**
+ * CSS variables the items declare that `css` does not define in the block
+ * they belong to, so a variable set only in `:root` is still missing from
+ * `.dark`, with the CSS to append for them. `theme: false` skips the Tailwind
+ * v4 `@theme inline` variables.
+ */
+function getMissingCssVars(
+	css: string,
+	items: RegistryItem[],
+	{ theme = true }: { theme?: boolean } = {},
+) {
+	const blocks: Record<string, Record<string, string>> = {};
+	const names: string[] = [];
+
+	for (const item of items) {
+		for (const [key, { selector, pattern }] of Object.entries(CSS_VAR_BLOCKS)) {
+			if (key === "theme" && !theme) {
+				continue;
+			}
+			const defined = [...css.matchAll(pattern)]
+				.map(([, body]) => body)
+				.join("\n");
+			const vars = item.cssVars?.[key as keyof typeof CSS_VAR_BLOCKS] ?? {};
+			for (const [name, value] of Object.entries(vars)) {
+				if (new RegExp(`--${name}\\s*:`).test(defined)) {
+					continue;
+				}
+				blocks[selector] = { ...blocks[selector], [name]: value };
+				names.push(`--${name} (${selector})`);
+			}
+		}
+	}
+
+	if (names.length === 0) {
+		return null;
+	}
+	const appended = Object.entries(blocks)
+		.map(
+			([selector, vars]) =>
+				`\n${selector} {\n${Object.entries(vars)
+					.map(([name, value]) => `  --${name}: ${value};`)
+					.join("\n")}\n}\n`,
+		)
+		.join("");
+	return { names: [...new Set(names)], css: appended };
+}
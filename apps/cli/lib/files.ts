@@ -0,0 +1,73 @@
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { type Config, resolveAlias } from "./config";
+
+type RegistryItemFile = NonNullable<RegistryItem["files"]>[number];
+
+/**
+ * Absolute path a registry file is written to. An explicit `target` is
+ * relative to the project root; otherwise the file type picks the alias.
+ */
+export async function getFileTarget(
+	file: RegistryItemFile,
+	config: Config,
+	cwd: string,
+) {
+	if (file.target) {
+		return path.resolve(cwd, file.target.replace(/^~\//, ""));
+	}
+
+	const fileName = path.basename(file.path);
+	const { aliases } = config;
+	switch (file.type) {
+		case "registry:ui":
+			return path.join(
+				await resolveAlias(cwd, aliases.ui ?? `${aliases.components}/ui`),
+				fileName,
+			);
+		case "registry:hook":
+			return path.join(
+				await resolveAlias(cwd, aliases.hooks ?? "@/hooks"),
+				fileName,
+			);
+		case "registry:lib":
+			return path.join(
+				await resolveAlias(cwd, aliases.lib ?? "@/lib"),
+				fileName,
+			);
+		default:
+			return path.join(await resolveAlias(cwd, aliases.components), fileName);
+	}
+}
+
+/**
+ * Rewrites the registry's `@/...` imports to the aliases in `components.json`.
+ * The most specific prefixes come first so `@/components/ui` is not claimed
+ * by `@/components`.
+ */
+export function transformImports(content: string, config: Config) {
+	const { aliases } = config;
+	// Where `getFileTarget` installs UI files, even without a `ui` alias.
+	const ui = aliases.ui ?? `${aliases.components}/ui`;
+	const rules: [string, string | undefined][] = [
+		["@/components/ui/", `${ui}/`],
+		["@/components/", `${aliases.components}/`],
+		["@/lib/utils", aliases.utils],
+		["@/lib/", aliases.lib && `${aliases.lib}/`],
+		["@/hooks/", aliases.hooks && `${aliases.hooks}/`],
+	];
+
+	return content.replace(
+		/(["'])(@\/[^"']+)\1/g,
+		(match, quote: string, specifier: string) => {
+			for (const [prefix, alias] of rules) {
+				if (specifier.startsWith(prefix)) {
+					return alias === undefined
+						? match
+						: `${quote}${alias}${specifier.slice(prefix.length)}${quote}`;
+				}
+			}
+			return match;
+		},
+	);
+}
@@ -1 +1,12 @@
-console.log("Hello via Bun!");
\ No newline at end of file
+export * from "./cache";
+export * from "./config";
+export * from "./create";
+export * from "./diff";
+export * from "./doctor";
+export * from "./files";
+export * from "./lockfile";
+export * from "./package-manager";
+export * from "./registry";
+export * from "./remove";
+export * from "./search";
+export * from "./update";
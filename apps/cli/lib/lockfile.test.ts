@@ -0,0 +1,261 @@
+import {
+	afterAll,
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type {
+	RegistryItem,
+	RegistryLockfile,
+} from "@bank-kit/registry/lib/schema";
+import type { Config } from "./config";
+import { getFileTarget, transformImports } from "./files";
+import { type InstalledItem, lockRegistryItems } from "./lockfile";
+import {
+	fetchRegistryItem,
+	getItemName,
+	resolveRegistryItems,
+} from "./registry";
+import {
+	planRemoval,
+	planRemovalKeepingModified,
+	removeItemFiles,
+} from "./remove";
+
+// A private namespace item; its manifest calls it `statement-viewer`.
+const ITEMS: Record<string, RegistryItem> = {
+	"@acme/statement-viewer": {
+		name: "statement-viewer",
+		type: "registry:component",
+		version: "0.1.0",
+		dependencies: ["date-fns"],
+		registryDependencies: ["button"],
+		files: [
+			{
+				path: "statement-viewer.tsx",
+				type: "registry:component",
+				content: 'import { Button } from "@/components/ui/button";\n',
+			},
+		],
+	},
+	button: {
+		name: "button",
+		type: "registry:ui",
+		version: "0.2.0",
+		dependencies: ["@radix-ui/react-slot"],
+		files: [
+			{
+				path: "button.tsx",
+				type: "registry:ui",
+				content: "export function Button() {}\n",
+			},
+		],
+	},
+};
+
+const config: Config = {
+	style: "new-york",
+	rsc: false,
+	tsx: true,
+	tailwind: {
+		css: "app/globals.css",
+		baseColor: "neutral",
+		cssVariables: true,
+	},
+	aliases: { components: "@/components", utils: "@/lib/utils" },
+};
+
+const server = Bun.serve({
+	port: 0,
+	fetch(req) {
+		const specifier = decodeURIComponent(new URL(req.url).pathname.slice(1));
+		const item = ITEMS[getItemName(specifier)];
+		return item ? Response.json(item) : new Response(null, { status: 404 });
+	},
+});
+const registryUrl = server.url.href.replace(/\/$/, "");
+const button = ITEMS.button as RegistryItem;
+
+let cwd: string;
+beforeEach(async () => {
+	cwd = await mkdtemp(path.join(tmpdir(), "bank-kit-"));
+	await Bun.write(
+		path.join(cwd, "tsconfig.json"),
+		JSON.stringify({ compilerOptions: { paths: { "@/*": ["./*"] } } }),
+	);
+});
+afterEach(() => rm(cwd, { recursive: true, force: true }));
+afterAll(() => server.stop(true));
+
+/**
+ * What `bank-kit add` does without `--overwrite`: writes the files that do
+ * not exist yet, then locks the items none of whose files were skipped.
+ */
+async function add(names: string[], lockfile: RegistryLockfile) {
+	const resolved = await resolveRegistryItems(registryUrl, names);
+	const items: InstalledItem[] = resolved.items.map((entry) => ({
+		...entry,
+		registryUrl,
+	}));
+	const skipped = new Set<string>();
+	for (const { name, item } of items) {
+		for (const file of item.files ?? []) {
+			const target = await getFileTarget(file, config, cwd);
+			const content = transformImports(file.content ?? "", config);
+			const existing = Bun.file(target);
+			if ((await existing.exists()) && (await existing.text()) !== content) {
+				skipped.add(name);
+				continue;
+			}
+			await Bun.write(target, content);
+		}
+	}
+	await lockRegistryItems(
+		lockfile,
+		items.filter(({ name }) => !skipped.has(name)),
+		names,
+		config,
+		cwd,
+	);
+}
+
+/** What `bank-kit remove` does: fetches each entry at its locked version. */
+async function fetchLockedItems(lockfile: RegistryLockfile) {
+	const items = new Map<string, RegistryItem>();
+	for (const [name, locked] of Object.entries(lockfile.items)) {
+		const item = await fetchRegistryItem(
+			locked.registry,
+			`${name}@${locked.version}`,
+		);
+		if (item) {
+			items.set(name, item);
+		}
+	}
+	return items;
+}
+
+describe("lockRegistryItems", () => {
+	test("locks namespaced items under the name they were requested by", async () => {
+		const lockfile: RegistryLockfile = { lockfileVersion: 1, items: {} };
+		await add(["@acme/statement-viewer@0.1.0"], lockfile);
+
+		expect(Object.keys(lockfile.items).sort()).toEqual([
+			"@acme/statement-viewer",
+			"button",
+		]);
+		expect(lockfile.items["@acme/statement-viewer"]).toMatchObject({
+			version: "0.1.0",
+			registry: registryUrl,
+			files: [{ path: "components/statement-viewer.tsx" }],
+		});
+		expect(
+			lockfile.items["@acme/statement-viewer"]?.dependency,
+		).toBeUndefined();
+		expect(lockfile.items.button?.dependency).toBe(true);
+	});
+
+	test("keeps an explicitly added dependency when it is pulled in again", async () => {
+		const lockfile: RegistryLockfile = { lockfileVersion: 1, items: {} };
+		await add(["button"], lockfile);
+		await add(["@acme/statement-viewer"], lockfile);
+
+		expect(lockfile.items.button?.dependency).toBeUndefined();
+	});
+
+	test("keeps the lock entry of an item whose files were skipped", async () => {
+		const lockfile: RegistryLockfile = { lockfileVersion: 1, items: {} };
+		await add(["button"], lockfile);
+		const locked = JSON.stringify(lockfile.items.button);
+
+		await Bun.write(
+			path.join(cwd, "components/ui/button.tsx"),
+			"export function Button(props) {}\n",
+		);
+		ITEMS.button = { ...button, version: "0.3.0" };
+		try {
+			await add(["@acme/statement-viewer"], lockfile);
+		} finally {
+			ITEMS.button = button;
+		}
+
+		expect(JSON.stringify(lockfile.items.button)).toBe(locked);
+		expect(lockfile.items["@acme/statement-viewer"]?.version).toBe("0.1.0");
+	});
+});
+
+describe("planRemoval", () => {
+	test("removes a namespaced item with the dependencies only it needed", async () => {
+		const lockfile: RegistryLockfile = { lockfileVersion: 1, items: {} };
+		await add(["@acme/statement-viewer"], lockfile);
+
+		const items = await fetchLockedItems(lockfile);
+		expect([...items.keys()].sort()).toEqual([
+			"@acme/statement-viewer",
+			"button",
+		]);
+
+		const plan = planRemoval(["@acme/statement-viewer"], lockfile, items);
+		expect(plan.items.sort()).toEqual(["@acme/statement-viewer", "button"]);
+		expect(plan.packages.sort()).toEqual(["@radix-ui/react-slot", "date-fns"]);
+
+		const deleted: string[] = [];
+		for (const name of plan.items) {
+			const result = await removeItemFiles(name, lockfile, plan.items, cwd);
+			expect(result.modified).toEqual([]);
+			deleted.push(...result.deleted);
+		}
+		expect(deleted.sort()).toEqual([
+			"components/statement-viewer.tsx",
+			"components/ui/button.tsx",
+		]);
+	});
+});
+
+describe("planRemovalKeepingModified", () => {
+	test("keeps an edited item and the dependencies only it needed", async () => {
+		const lockfile: RegistryLockfile = { lockfileVersion: 1, items: {} };
+		await add(["@acme/statement-viewer"], lockfile);
+		await Bun.write(
+			path.join(cwd, "components/statement-viewer.tsx"),
+			"export function StatementViewer() {}\n",
+		);
+
+		const plan = await planRemovalKeepingModified(
+			["@acme/statement-viewer"],
+			lockfile,
+			await fetchLockedItems(lockfile),
+			cwd,
+		);
+
+		expect(plan.items).toEqual([]);
+		expect(plan.packages).toEqual([]);
+		expect([...plan.kept]).toEqual([
+			["@acme/statement-viewer", ["components/statement-viewer.tsx"]],
+		]);
+	});
+
+	test("keeps an edited dependency and the packages it lists", async () => {
+		const lockfile: RegistryLockfile = { lockfileVersion: 1, items: {} };
+		await add(["@acme/statement-viewer"], lockfile);
+		await Bun.write(
+			path.join(cwd, "components/ui/button.tsx"),
+			"export function Button(props) {}\n",
+		);
+
+		const plan = await planRemovalKeepingModified(
+			["@acme/statement-viewer"],
+			lockfile,
+			await fetchLockedItems(lockfile),
+			cwd,
+		);
+
+		expect(plan.items).toEqual(["@acme/statement-viewer"]);
+		expect(plan.packages).toEqual(["date-fns"]);
+		expect([...plan.kept.keys()]).toEqual(["button"]);
+	});
+});
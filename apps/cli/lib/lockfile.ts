@@ -0,0 +1,100 @@
+import path from "node:path";
+import {
+	type RegistryItem,
+	type RegistryLockfile,
+	type RegistryLockfileItem,
+	registryLockfileSchema,
+} from "@bank-kit/registry/lib/schema";
+import type { Config } from "./config";
+import { getFileTarget, transformImports } from "./files";
+import { getItemName } from "./registry";
+
+export const LOCKFILE = "bank-kit.lock.json";
+
+/** A fetched item, the name it was requested by and where it came from. */
+export interface InstalledItem {
+	name: string;
+	item: RegistryItem;
+	registryUrl: string;
+}
+
+/** Reads the lockfile in `cwd`, or an empty one when there is none yet. */
+export async function getLockfile(cwd: string): Promise<RegistryLockfile> {
+	const file = Bun.file(path.join(cwd, LOCKFILE));
+	if (!(await file.exists())) {
+		return { lockfileVersion: 1, items: {} };
+	}
+	const result = registryLockfileSchema.safeParse(await file.json());
+	if (!result.success) {
+		throw new Error(
+			`Invalid ${LOCKFILE}: ${result.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`).join(", ")}`,
+		);
+	}
+	return result.data;
+}
+
+/** Writes the lockfile with items sorted by name, so diffs stay small. */
+export async function writeLockfile(cwd: string, lockfile: RegistryLockfile) {
+	const items = Object.fromEntries(
+		Object.entries(lockfile.items).sort(([a], [b]) => a.localeCompare(b)),
+	);
+	await Bun.write(
+		path.join(cwd, LOCKFILE),
+		`${JSON.stringify({ ...lockfile, items }, null, 2)}\n`,
+	);
+}
+
+/**
+ * The lockfile entry for `item` as published, whether or not the local files
+ * still match it. Comparing `hash` with a file on disk tells whether it was
+ * modified since.
+ */
+export async function getLockfileItem(
+	item: RegistryItem,
+	registryUrl: string,
+	config: Config,
+	cwd: string,
+): Promise<RegistryLockfileItem> {
+	const files = await Promise.all(
+		(item.files ?? []).map(async (file) => ({
+			path: path
+				.relative(cwd, await getFileTarget(file, config, cwd))
+				.split(path.sep)
+				.join("/"),
+			hash: hashContent(transformImports(file.content ?? "", config)),
+		})),
+	);
+	return { version: item.version, registry: registryUrl, files };
+}
+
+/**
+ * Records `items` in the lockfile under the names they were requested by, so
+ * `@acme/table` is locked as `@acme/table` rather than its manifest name.
+ * Items pulled in only by `registryDependencies` of the `requested` ones are
+ * flagged so `remove` can clean them up once nothing needs them. Without
+ * `requested`, as when reinstalling from the lockfile, flags are kept.
+ */
+export async function lockRegistryItems(
+	lockfile: RegistryLockfile,
+	items: InstalledItem[],
+	requested: string[],
+	config: Config,
+	cwd: string,
+) {
+	const explicit = new Set(requested.map(getItemName));
+	for (const { name, item, registryUrl } of items) {
+		const previous = lockfile.items[name];
+		const dependency =
+			requested.length > 0
+				? !explicit.has(name) && (previous?.dependency ?? !previous)
+				: previous?.dependency;
+		lockfile.items[name] = {
+			...(await getLockfileItem(item, registryUrl, config, cwd)),
+			dependency: dependency || undefined,
+		};
+	}
+}
+
+export function hashContent(content: string) {
+	return new Bun.CryptoHasher("sha256").update(content).digest("hex");
+}
@@ -0,0 +1,30 @@
+const cyan = (s: string) => `\x1b[36m${s}\x1b[0m`;
+const green = (s: string) => `\x1b[32m${s}\x1b[0m`;
+const yellow = (s: string) => `\x1b[33m${s}\x1b[0m`;
+const red = (s: string) => `\x1b[31m${s}\x1b[0m`;
+const dim = (s: string) => `\x1b[2m${s}\x1b[0m`;
+
+export const logger = {
+	/** Set from the global `--verbose` option. */
+	verbose: false,
+	info(msg: string) {
+		console.log(cyan(msg));
+	},
+	success(msg: string) {
+		console.log(green(msg));
+	},
+	warn(msg: string) {
+		console.warn(yellow(msg));
+	},
+	error(msg: string) {
+		console.error(red(msg));
+	},
+	debug(msg: string) {
+		if (logger.verbose) {
+			console.log(dim(msg));
+		}
+	},
+	log(msg = "") {
+		console.log(msg);
+	},
+};
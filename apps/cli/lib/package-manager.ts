@@ -0,0 +1,85 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { logger } from "./logger";
+
+export type PackageManager = "bun" | "pnpm" | "yarn" | "npm";
+
+const LOCKFILES: [string, PackageManager][] = [
+	["bun.lock", "bun"],
+	["bun.lockb", "bun"],
+	["pnpm-lock.yaml", "pnpm"],
+	["yarn.lock", "yarn"],
+	["package-lock.json", "npm"],
+];
+
+/**
+ * Detects the project's package manager from its lockfile, then from the
+ * package manager running this CLI. Falls back to npm.
+ */
+export function detectPackageManager(cwd: string): PackageManager {
+	for (const [lockfile, packageManager] of LOCKFILES) {
+		if (existsSync(path.join(cwd, lockfile))) {
+			return packageManager;
+		}
+	}
+	const userAgent = process.env.npm_config_user_agent ?? "";
+	for (const packageManager of ["bun", "pnpm", "yarn"] as const) {
+		if (userAgent.startsWith(packageManager)) {
+			return packageManager;
+		}
+	}
+	return "npm";
+}
+
+/** Installs `dependencies` in `cwd`, as devDependencies when `dev` is set. */
+export async function installDependencies(
+	cwd: string,
+	dependencies: string[],
+	{ dev = false }: { dev?: boolean } = {},
+) {
+	if (dependencies.length === 0) {
+		return;
+	}
+
+	const packageManager = detectPackageManager(cwd);
+	await run(cwd, [
+		packageManager,
+		packageManager === "npm" ? "install" : "add",
+		...(dev ? ["-D"] : []),
+		...dependencies,
+	]);
+}
+
+/** Uninstalls `packages` (names or `name@range` specifiers) in `cwd`. */
+export async function uninstallDependencies(cwd: string, packages: string[]) {
+	if (packages.length === 0) {
+		return;
+	}
+
+	const packageManager = detectPackageManager(cwd);
+	await run(cwd, [
+		packageManager,
+		packageManager === "npm" ? "uninstall" : "remove",
+		...packages.map(getPackageName),
+	]);
+}
+
+/** `@radix-ui/react-slot@^1.2.2` -> `@radix-ui/react-slot`. */
+export function getPackageName(dependency: string) {
+	return dependency.match(/^(@[^/]+\/[^@]+|[^@]+)/)?.[1] ?? dependency;
+}
+
+async function run(cwd: string, command: string[]) {
+	logger.info(`Running ${command.join(" ")}`);
+
+	const proc = Bun.spawn(command, {
+		cwd,
+		stdout: "inherit",
+		stderr: "inherit",
+	});
+	if ((await proc.exited) !== 0) {
+		throw new Error(
+			`${command.join(" ")} failed with exit code ${proc.exitCode}.`,
+		);
+	}
+}
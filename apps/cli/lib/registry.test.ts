@@ -0,0 +1,86 @@
+import {
+	afterAll,
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { searchRegistry } from "./registry";
+
+const INDEX: RegistryItem[] = [
+	{ name: "button", type: "registry:ui", description: "A button." },
+	{
+		name: "transactions-table",
+		type: "registry:block",
+		description: "A table of transactions.",
+	},
+	{ name: "table", type: "registry:ui", description: "A table." },
+];
+
+// Pages of two, so the client has to follow them; `/static` has no search.
+let searches = 0;
+const server = Bun.serve({
+	port: 0,
+	fetch(req) {
+		const url = new URL(req.url);
+		switch (url.pathname) {
+			case "/api/registry/search": {
+				searches++;
+				const page = Number(url.searchParams.get("page"));
+				// The server ranks `transactions-table` first for "tabel".
+				const items = [INDEX[1], INDEX[2]].map((item) => ({
+					...item,
+					score: 1,
+				}));
+				return Response.json({
+					query: url.searchParams.get("q"),
+					total: items.length,
+					page,
+					perPage: 1,
+					items: items.slice(page - 1, page),
+				});
+			}
+			case "/api/registry":
+			case "/static":
+				return Response.json(INDEX);
+			default:
+				return new Response(null, { status: 404 });
+		}
+	},
+});
+const origin = server.url.origin;
+
+let cacheDir: string;
+beforeEach(async () => {
+	searches = 0;
+	cacheDir = await mkdtemp(path.join(tmpdir(), "bank-kit-cache-"));
+	process.env.BANK_KIT_CACHE_DIR = cacheDir;
+});
+afterEach(() => rm(cacheDir, { recursive: true, force: true }));
+afterAll(() => server.stop(true));
+
+describe("searchRegistry", () => {
+	test("returns every page of the registry's own ranking", async () => {
+		const items = await searchRegistry(`${origin}/api/registry`, "tabel");
+
+		expect(items.map(({ name }) => name)).toEqual([
+			"transactions-table",
+			"table",
+		]);
+		expect(searches).toBe(2);
+	});
+
+	test("searches the index of registries without a search endpoint", async () => {
+		const items = await searchRegistry(`${origin}/static`, "table");
+
+		expect(items.map(({ name }) => name)).toEqual([
+			"table",
+			"transactions-table",
+		]);
+	});
+});
@@ -0,0 +1,185 @@
+import { collectRegistryItems } from "@bank-kit/registry/lib/resolve";
+import {
+	type RegistryItem,
+	registryIndexSchema,
+	registryItemSchema,
+} from "@bank-kit/registry/lib/schema";
+import { z } from "zod";
+import { type CacheEntry, readCache, writeCache } from "./cache";
+import { logger } from "./logger";
+import { searchIndex } from "./search";
+
+type RegistryIndex = z.infer<typeof registryIndexSchema>;
+
+const registrySearchResultSchema = z.object({
+	total: z.number(),
+	items: registryIndexSchema,
+});
+
+/**
+ * Fetches a registry item, e.g. `table`, `table@^1` or `@acme/table`.
+ * Returns `null` when the registry does not have it.
+ */
+export async function fetchRegistryItem(
+	registryUrl: string,
+	specifier: string,
+): Promise<RegistryItem | null> {
+	const url = `${registryUrl}/${specifier}`;
+	logger.debug(`GET ${url}`);
+
+	const response = await fetch(url, { headers: getHeaders() });
+	if (response.status === 404) {
+		return null;
+	}
+	if (!response.ok) {
+		throw new Error(
+			`Failed to fetch ${specifier} from ${registryUrl}: ${await getErrorMessage(response)}`,
+		);
+	}
+	return registryItemSchema.parse(await response.json());
+}
+
+/**
+ * Fetches the registry index: every item without its files. The index is
+ * cached on disk and revalidated with its ETag; when the registry cannot be
+ * reached the cached copy is used instead.
+ */
+export async function fetchRegistryIndex(
+	registryUrl: string,
+): Promise<RegistryIndex> {
+	const cached = await readCache(registryUrl, "index", registryIndexSchema);
+	const headers = getHeaders();
+	if (cached?.etag) {
+		headers["If-None-Match"] = cached.etag;
+	}
+	logger.debug(`GET ${registryUrl}`);
+
+	let response: Response;
+	try {
+		response = await fetch(registryUrl, { headers });
+	} catch (error) {
+		if (!cached) {
+			throw error;
+		}
+		return useCachedIndex(registryUrl, cached);
+	}
+
+	if (response.status === 304 && cached) {
+		return cached.data;
+	}
+	if (!response.ok) {
+		if (cached && response.status >= 500) {
+			return useCachedIndex(registryUrl, cached);
+		}
+		throw new Error(
+			`Failed to fetch the index of ${registryUrl}: ${await getErrorMessage(response)}`,
+		);
+	}
+
+	const index = registryIndexSchema.parse(await response.json());
+	await writeCache(registryUrl, "index", {
+		fetchedAt: new Date().toISOString(),
+		etag: response.headers.get("ETag"),
+		data: index,
+	});
+	return index;
+}
+
+function useCachedIndex(
+	registryUrl: string,
+	cached: CacheEntry<RegistryIndex>,
+) {
+	logger.warn(
+		`Could not reach ${registryUrl}. Using the index cached on ${new Date(cached.fetchedAt).toLocaleString()}.`,
+	);
+	return cached.data;
+}
+
+/**
+ * Searches the registry with its `/search` endpoint, which ranks matches and
+ * tolerates typos. When the registry cannot be reached, or has no such
+ * endpoint, the index from `fetchRegistryIndex` is searched locally instead.
+ */
+export async function searchRegistry(
+	registryUrl: string,
+	query: string,
+): Promise<RegistryItem[]> {
+	const items: RegistryItem[] = [];
+	for (let page = 1; ; page++) {
+		const url = `${registryUrl}/search?${new URLSearchParams({ q: query, page: String(page), perPage: "100" })}`;
+		logger.debug(`GET ${url}`);
+
+		let response: Response;
+		try {
+			response = await fetch(url, { headers: getHeaders() });
+		} catch {
+			return searchIndex(await fetchRegistryIndex(registryUrl), query);
+		}
+		if (response.status === 404 || response.status >= 500) {
+			return searchIndex(await fetchRegistryIndex(registryUrl), query);
+		}
+		if (!response.ok) {
+			throw new Error(
+				`Failed to search ${registryUrl}: ${await getErrorMessage(response)}`,
+			);
+		}
+
+		const result = registrySearchResultSchema.parse(await response.json());
+		items.push(...result.items);
+		if (result.items.length === 0 || items.length >= result.total) {
+			return items;
+		}
+	}
+}
+
+/**
+ * Fetches `names` and their `registryDependencies` in install order. Items
+ * this registry lacks come back as `unresolved`. Each item comes with the name
+ * it was requested by, e.g. `@acme/table` for an item whose manifest calls it
+ * `table`, which is how `registryDependencies` and the lockfile refer to it.
+ */
+export async function resolveRegistryItems(
+	registryUrl: string,
+	names: string[],
+) {
+	const requestedAs = new Map<RegistryItem, string>();
+	const { items, unresolved } = await collectRegistryItems(
+		names,
+		async (specifier) => {
+			const item = await fetchRegistryItem(registryUrl, specifier);
+			if (item) {
+				requestedAs.set(item, getItemName(specifier));
+			}
+			return item;
+		},
+	);
+	return {
+		items: items.map((item) => ({
+			name: requestedAs.get(item) ?? item.name,
+			item,
+		})),
+		unresolved,
+	};
+}
+
+/** `table@^1` -> `table`, `@acme/table@1.0.0` -> `@acme/table`. */
+export function getItemName(specifier: string) {
+	return specifier.replace(/(.)@[^/]*$/, "$1");
+}
+
+/** Private namespaces expect `BANK_KIT_TOKEN` as a bearer token. */
+function getHeaders(): Record<string, string> {
+	const token = process.env.BANK_KIT_TOKEN;
+	return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function getErrorMessage(response: Response) {
+	try {
+		const { error } = (await response.json()) as {
+			error: { message: string };
+		};
+		return error.message;
+	} catch {
+		return `${response.status} ${response.statusText}`;
+	}
+}
@@ -0,0 +1,165 @@
+import { rm } from "node:fs/promises";
+import path from "node:path";
+import type {
+	RegistryItem,
+	RegistryLockfile,
+	RegistryLockfileItem,
+} from "@bank-kit/registry/lib/schema";
+import { hashContent } from "./lockfile";
+import { getPackageName } from "./package-manager";
+
+/**
+ * Works out what removing `names` takes down with it: registry dependencies
+ * that were only installed for them and no remaining item needs, and the npm
+ * packages no remaining item lists. `items` holds the locked version of each
+ * lockfile item, for its `registryDependencies` and `dependencies`. Items in
+ * `kept` stay installed even when nothing else needs them.
+ */
+export function planRemoval(
+	names: string[],
+	lockfile: RegistryLockfile,
+	items: Map<string, RegistryItem>,
+	kept: string[] = [],
+) {
+	const removed = new Set(names);
+	const isNeeded = (name: string) =>
+		Object.keys(lockfile.items).some(
+			(other) =>
+				!removed.has(other) &&
+				items.get(other)?.registryDependencies?.includes(name),
+		);
+
+	const queue = [...names];
+	while (queue.length > 0) {
+		const name = queue.shift() as string;
+		for (const dependency of items.get(name)?.registryDependencies ?? []) {
+			if (
+				removed.has(dependency) ||
+				kept.includes(dependency) ||
+				!lockfile.items[dependency]?.dependency ||
+				isNeeded(dependency)
+			) {
+				continue;
+			}
+			removed.add(dependency);
+			queue.push(dependency);
+		}
+	}
+
+	const packagesOf = (filter: (name: string) => boolean) =>
+		new Set(
+			Object.keys(lockfile.items)
+				.filter(filter)
+				.flatMap((name) => items.get(name)?.dependencies ?? [])
+				.map(getPackageName),
+		);
+	const remaining = packagesOf((name) => !removed.has(name));
+	const packages = [...packagesOf((name) => removed.has(name))].filter(
+		(name) => !remaining.has(name),
+	);
+
+	return { items: [...removed], packages };
+}
+
+/**
+ * Plans removing `names` like `planRemoval`, except that items with files
+ * edited since install are kept, unless `force` is set, along with what only
+ * they need. `kept` maps each of them to its edited files.
+ */
+export async function planRemovalKeepingModified(
+	names: string[],
+	lockfile: RegistryLockfile,
+	items: Map<string, RegistryItem>,
+	cwd: string,
+	{ force = false }: { force?: boolean } = {},
+) {
+	const kept = new Map<string, string[]>();
+	for (;;) {
+		const plan = planRemoval(
+			names.filter((name) => !kept.has(name)),
+			lockfile,
+			items,
+			[...kept.keys()],
+		);
+		if (force) {
+			return { ...plan, kept };
+		}
+
+		let changed = false;
+		for (const name of plan.items) {
+			const modified: string[] = [];
+			for (const file of await getOwnFiles(name, lockfile, plan.items, cwd)) {
+				if (await isModified(file, cwd)) {
+					modified.push(file.path);
+				}
+			}
+			if (modified.length > 0) {
+				kept.set(name, modified);
+				changed = true;
+			}
+		}
+		// Keeping an item can keep its dependencies, so plan again until stable.
+		if (!changed) {
+			return { ...plan, kept };
+		}
+	}
+}
+
+/**
+ * Deletes the files `name` installed. Files edited since install are kept
+ * unless `force` is set, as are files another remaining item also installed.
+ */
+export async function removeItemFiles(
+	name: string,
+	lockfile: RegistryLockfile,
+	removed: string[],
+	cwd: string,
+	{ force = false }: { force?: boolean } = {},
+) {
+	const result = { deleted: [] as string[], modified: [] as string[] };
+	for (const file of await getOwnFiles(name, lockfile, removed, cwd)) {
+		if (!force && (await isModified(file, cwd))) {
+			result.modified.push(file.path);
+			continue;
+		}
+		await rm(path.join(cwd, file.path));
+		result.deleted.push(file.path);
+	}
+	return result;
+}
+
+/**
+ * The locked files of `name` still on disk that no remaining item also
+ * installed.
+ */
+async function getOwnFiles(
+	name: string,
+	lockfile: RegistryLockfile,
+	removed: string[],
+	cwd: string,
+) {
+	const shared = new Set(
+		Object.entries(lockfile.items)
+			.filter(([other]) => !removed.includes(other))
+			.flatMap(([, item]) => item.files.map((file) => file.path)),
+	);
+
+	const files: RegistryLockfileItem["files"] = [];
+	for (const file of lockfile.items[name]?.files ?? []) {
+		if (
+			!shared.has(file.path) &&
+			(await Bun.file(path.join(cwd, file.path)).exists())
+		) {
+			files.push(file);
+		}
+	}
+	return files;
+}
+
+async function isModified(
+	file: RegistryLockfileItem["files"][number],
+	cwd: string,
+) {
+	const content = await Bun.file(path.join(cwd, file.path)).text();
+	return hashContent(content) !== file.hash;
+}
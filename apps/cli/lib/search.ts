@@ -0,0 +1,33 @@
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+
+/**
+ * Filters index items to those matching every term of `query` in their name,
+ * title, description or categories. Name matches rank first. This is the
+ * offline fallback for the registry's own, typo-tolerant search.
+ */
+export function searchIndex(index: RegistryItem[], query: string) {
+	const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+	return index
+		.map((item) => {
+			const name = item.name.toLowerCase();
+			const text = [item.title, item.description, ...(item.categories ?? [])]
+				.join(" ")
+				.toLowerCase();
+
+			let score = 0;
+			for (const term of terms) {
+				if (name.includes(term)) {
+					score += name === term ? 3 : 2;
+				} else if (text.includes(term)) {
+					score += 1;
+				} else {
+					return { item, score: 0 };
+				}
+			}
+			return { item, score };
+		})
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name))
+		.map(({ item }) => item);
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import type { Config } from "./config";
+import { mergeFile, updateRegistryItem } from "./update";
+
+const labels = { local: "local", upstream: "button@0.2.0" };
+
+const config: Config = {
+	style: "new-york",
+	rsc: false,
+	tsx: true,
+	tailwind: {
+		css: "app/globals.css",
+		baseColor: "neutral",
+		cssVariables: true,
+	},
+	aliases: { components: "@/components", utils: "@/lib/utils" },
+};
+
+let cwd: string;
+beforeEach(async () => {
+	cwd = await mkdtemp(path.join(tmpdir(), "bank-kit-"));
+	await Bun.write(
+		path.join(cwd, "tsconfig.json"),
+		JSON.stringify({ compilerOptions: { paths: { "@/*": ["./*"] } } }),
+	);
+});
+afterEach(() => rm(cwd, { recursive: true, force: true }));
+
+/** `button` at `version` with one `registry:ui` file per entry of `files`. */
+function button(version: string, files: Record<string, string>): RegistryItem {
+	return {
+		name: "button",
+		type: "registry:ui",
+		version,
+		files: Object.entries(files).map(([file, content]) => ({
+			path: file,
+			type: "registry:ui",
+			content,
+		})),
+	};
+}
+
+describe("mergeFile", () => {
+	test("merges changes to different lines without conflicts", () => {
+		const base = "a\nb\nc\nd\n";
+		const local = "a\nB\nc\nd\n";
+		const upstream = "a\nb\nc\nD\n";
+
+		expect(mergeFile(local, base, upstream, labels)).toEqual({
+			conflict: false,
+			content: "a\nB\nc\nD\n",
+		});
+	});
+
+	test("writes conflict markers around overlapping changes", () => {
+		const base = "a\nb\nc\n";
+		const local = "a\nlocal\nc\n";
+		const upstream = "a\nupstream\nc\n";
+
+		const merged = mergeFile(local, base, upstream, labels);
+
+		expect(merged.conflict).toBe(true);
+		expect(merged.content).toBe(
+			[
+				"a",
+				"<<<<<<< local",
+				"local",
+				"=======",
+				"upstream",
+				">>>>>>> button@0.2.0",
+				"c",
+				"",
+			].join("\n"),
+		);
+	});
+});
+
+describe("updateRegistryItem", () => {
+	test("reports files removed upstream without deleting them", async () => {
+		const base = button("0.1.0", {
+			"button.tsx": "export function Button() {}\n",
+			"button-group.tsx": "export function ButtonGroup() {}\n",
+		});
+		const upstream = button("0.2.0", {
+			"button.tsx": "export function Button(props) {}\n",
+		});
+		for (const file of base.files ?? []) {
+			await Bun.write(
+				path.join(cwd, "components/ui", file.path),
+				file.content ?? "",
+			);
+		}
+
+		const result = await updateRegistryItem(base, upstream, config, cwd);
+
+		expect(result).toEqual({
+			updated: ["components/ui/button.tsx"],
+			conflicts: [],
+			skipped: [],
+			removed: ["components/ui/button-group.tsx"],
+		});
+		expect(
+			await Bun.file(path.join(cwd, "components/ui/button-group.tsx")).exists(),
+		).toBe(true);
+	});
+
+	test("does not report removed files that were already deleted", async () => {
+		const base = button("0.1.0", {
+			"button.tsx": "export function Button() {}\n",
+			"button-group.tsx": "export function ButtonGroup() {}\n",
+		});
+		const upstream = button("0.2.0", {
+			"button.tsx": "export function Button() {}\n",
+		});
+		await Bun.write(
+			path.join(cwd, "components/ui/button.tsx"),
+			"export function Button() {}\n",
+		);
+
+		const result = await updateRegistryItem(base, upstream, config, cwd);
+
+		expect(result.removed).toEqual([]);
+	});
+});
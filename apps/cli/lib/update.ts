@@ -0,0 +1,104 @@
+import path from "node:path";
+import type { RegistryItem } from "@bank-kit/registry/lib/schema";
+import { merge } from "node-diff3";
+import type { Config } from "./config";
+import { getFileTarget, transformImports } from "./files";
+
+export interface UpdateResult {
+	/** Files written without conflicts, relative to the project root. */
+	updated: string[];
+	/** Files written with conflict markers. */
+	conflicts: string[];
+	/** Files deleted locally that the update left alone. */
+	skipped: string[];
+	/** Files upstream no longer ships, left in place for the user to delete. */
+	removed: string[];
+}
+
+/**
+ * Updates the local copy of an item from `base`, the version it was installed
+ * at, to `upstream`. Each file is three-way merged so local changes survive;
+ * overlapping changes are written with git-style conflict markers. Files
+ * dropped upstream are never deleted, only reported in `removed`.
+ */
+export async function updateRegistryItem(
+	base: RegistryItem,
+	upstream: RegistryItem,
+	config: Config,
+	cwd: string,
+): Promise<UpdateResult> {
+	const result: UpdateResult = {
+		updated: [],
+		conflicts: [],
+		skipped: [],
+		removed: [],
+	};
+
+	const baseFiles = new Map<string, string>();
+	for (const file of base.files ?? []) {
+		baseFiles.set(
+			await getFileTarget(file, config, cwd),
+			transformImports(file.content ?? "", config),
+		);
+	}
+
+	for (const file of upstream.files ?? []) {
+		const target = await getFileTarget(file, config, cwd);
+		const relative = path.relative(cwd, target);
+		const incoming = transformImports(file.content ?? "", config);
+		const original = baseFiles.get(target);
+		baseFiles.delete(target);
+		const local = Bun.file(target);
+
+		if (!(await local.exists())) {
+			// New upstream files are added; files the user deleted stay deleted.
+			if (original === undefined) {
+				await Bun.write(target, incoming);
+				result.updated.push(relative);
+			} else {
+				result.skipped.push(relative);
+			}
+			continue;
+		}
+
+		const current = await local.text();
+		if (current === incoming) {
+			continue;
+		}
+		if (current === original) {
+			await Bun.write(target, incoming);
+			result.updated.push(relative);
+			continue;
+		}
+
+		const merged = mergeFile(current, original ?? "", incoming, {
+			local: "local",
+			upstream: `${upstream.name}@${upstream.version}`,
+		});
+		await Bun.write(target, merged.content);
+		(merged.conflict ? result.conflicts : result.updated).push(relative);
+	}
+
+	// What is left of the base files is no longer part of the item.
+	for (const target of baseFiles.keys()) {
+		if (await Bun.file(target).exists()) {
+			result.removed.push(path.relative(cwd, target));
+		}
+	}
+
+	return result;
+}
+
+/** Line-based three-way merge of `local` and `upstream` against `base`. */
+export function mergeFile(
+	local: string,
+	base: string,
+	upstream: string,
+	labels: { local: string; upstream: string },
+) {
+	const { conflict, result } = merge(local, base, upstream, {
+		stringSeparator: "\n",
+		label: { a: labels.local, b: labels.upstream },
+	});
+	return { conflict, content: result.join("\n") };
+}
@@ -1,3 +1 @@
-export function HelloWorld() {
-	return <h1 className="text-2xl font-bold">Hello World</h1>;
-}
+export * from "@bank-kit/registry/hello-world/hello-world";
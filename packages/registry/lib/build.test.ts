@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import path from "node:path";
+import { buildRegistryItem, readRegistry } from "./build.js";
+import type { RegistryItem } from "./schema.js";
+
+const cwd = path.join(import.meta.dir, "..");
+
+type RegistryItemFile = NonNullable<RegistryItem["files"]>[number];
+
+/** The `@/...` import of a file `bank-kit add` installed with default aliases. */
+function getInstalledImport(file: RegistryItemFile) {
+	const name = path.basename(file.path).replace(/\.tsx?$/, "");
+	switch (file.type) {
+		case "registry:ui":
+			return `@/components/ui/${name}`;
+		case "registry:hook":
+			return `@/hooks/${name}`;
+		case "registry:lib":
+			return `@/lib/${name}`;
+		default:
+			return `@/components/${name}`;
+	}
+}
+
+describe("buildRegistryItem", () => {
+	test("adds the items behind rewritten imports as dependencies", async () => {
+		const registry = await readRegistry(cwd);
+		const item = registry.items.find(({ name }) => name === "alert-dialog");
+		if (!item) {
+			throw new Error("alert-dialog is missing from registry.json");
+		}
+
+		const built = await buildRegistryItem(item, cwd);
+
+		expect(built.registryDependencies).toContain("button");
+		expect(built.files?.[0]?.content).toContain(
+			'from "@/components/ui/button"',
+		);
+	});
+
+	test("rewrites imports to where their dependencies are installed", async () => {
+		const registry = await readRegistry(cwd);
+		const items = new Map(registry.items.map((item) => [item.name, item]));
+
+		const mismatches: string[] = [];
+		for (const item of registry.items) {
+			const built = await buildRegistryItem(item, cwd);
+			const imports = new Set(
+				(built.files ?? []).flatMap((file) =>
+					[...(file.content ?? "").matchAll(/["'](@\/[^"']+)["']/g)].map(
+						([, specifier]) => specifier,
+					),
+				),
+			);
+
+			for (const dependency of built.registryDependencies ?? []) {
+				// Dependencies from other registries, e.g. shadcn's `utils`.
+				const provider = items.get(dependency);
+				if (!provider) {
+					continue;
+				}
+				const installed = (provider.files ?? []).map(getInstalledImport);
+				if (!installed.some((specifier) => imports.has(specifier))) {
+					mismatches.push(
+						`${item.name} imports ${dependency} from none of ${installed.join(", ")}`,
+					);
+				}
+			}
+		}
+
+		expect(mismatches).toEqual([]);
+	});
+});
@@ -0,0 +1,192 @@
+import { existsSync } from "node:fs";
+import { cp, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { rewriteImports } from "./imports.js";
+import {
+	type Registry,
+	type RegistryItem,
+	registryItemSchema,
+	registrySchema,
+} from "./schema.js";
+
+export const REGISTRY_ITEM_SCHEMA_URL =
+	"https://ui.shadcn.com/schema/registry-item.json";
+
+export interface BuildRegistryOptions {
+	/** Package root that `registry.json` and item file paths are relative to. */
+	cwd: string;
+	/** Where item JSON is written. Defaults to `public/r` under `cwd`. */
+	outputDir?: string;
+	/** Only build these items. Builds every item when omitted. */
+	names?: string[];
+	/**
+	 * Snapshot versioned items into `versionsDir`, failing when a published
+	 * version changed. Off for local previews, which still serve the existing
+	 * snapshots.
+	 */
+	snapshot?: boolean;
+	/**
+	 * Committed snapshots of every published version, copied into `outputDir`
+	 * so old versions stay installable. Defaults to `versions` under `cwd`.
+	 */
+	versionsDir?: string;
+}
+
+export interface BuildRegistryResult {
+	built: string[];
+	errors: string[];
+}
+
+/** Reads and validates the `registry.json` manifest in `cwd`. */
+export async function readRegistry(cwd: string): Promise<Registry> {
+	const manifest = await Bun.file(path.join(cwd, "registry.json")).json();
+	return registrySchema.parse(manifest);
+}
+
+/**
+ * Builds the registry into `outputDir`: one `<name>.json` per item with file
+ * contents inlined, plus a normalized `registry.json` manifest. Output is
+ * deterministic, so rebuilding unchanged sources rewrites identical files.
+ *
+ * Items that fail to build are reported in `errors` rather than thrown so one
+ * broken item does not hide problems in the rest.
+ */
+export async function buildRegistry({
+	cwd,
+	outputDir = path.join(cwd, "public/r"),
+	names,
+	snapshot = true,
+	versionsDir = path.join(cwd, "versions"),
+}: BuildRegistryOptions): Promise<BuildRegistryResult> {
+	const registry = await readRegistry(cwd);
+	const result: BuildRegistryResult = { built: [], errors: [] };
+
+	const seen = new Set<string>();
+	for (const { name } of registry.items) {
+		if (seen.has(name)) {
+			result.errors.push(`Duplicate registry item name "${name}".`);
+		}
+		seen.add(name);
+	}
+
+	await mkdir(outputDir, { recursive: true });
+	await Bun.write(
+		path.join(outputDir, "registry.json"),
+		toJson({
+			$schema: "https://ui.shadcn.com/schema/registry.json",
+			...registry,
+		}),
+	);
+
+	for (const item of registry.items) {
+		if (names && !names.includes(item.name)) {
+			continue;
+		}
+		try {
+			const content = toJson(await buildRegistryItem(item, cwd));
+			await Bun.write(path.join(outputDir, `${item.name}.json`), content);
+			if (snapshot && item.version) {
+				await writeSnapshot(versionsDir, item.name, item.version, content);
+			}
+			await publishSnapshots(versionsDir, outputDir, item.name);
+			result.built.push(item.name);
+		} catch (error) {
+			result.errors.push(
+				`Failed to build "${item.name}": ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Builds a single item: inlines the content of each file (paths are relative
+ * to `cwd`), rewrites monorepo imports to consumer aliases, adds the items
+ * those imports come from to `registryDependencies` and validates the result.
+ */
+export async function buildRegistryItem(
+	item: RegistryItem,
+	cwd: string,
+): Promise<RegistryItem> {
+	const registryDependencies = new Set(item.registryDependencies);
+	const files = await Promise.all(
+		(item.files ?? []).map(async (file) => {
+			const { content, registryDependencies: imported } = rewriteImports(
+				await Bun.file(path.resolve(cwd, file.path)).text(),
+			);
+			for (const dependency of imported) {
+				registryDependencies.add(dependency);
+			}
+			return { ...file, content };
+		}),
+	);
+	// An item never depends on itself, e.g. a multi-file item importing its own files.
+	registryDependencies.delete(item.name);
+
+	return registryItemSchema.parse({
+		$schema: REGISTRY_ITEM_SCHEMA_URL,
+		...item,
+		registryDependencies:
+			registryDependencies.size > 0 ? [...registryDependencies] : undefined,
+		files,
+	});
+}
+
+/**
+ * Names of the items that include any of `paths`. Relative paths, like the
+ * item file paths, resolve against `cwd`, so sources outside the package such
+ * as `../ui/src` match too.
+ */
+export function getAffectedItems(
+	registry: Registry,
+	paths: string[],
+	cwd: string,
+) {
+	const changed = new Set(paths.map((file) => path.resolve(cwd, file)));
+	return registry.items
+		.filter((item) =>
+			item.files?.some((file) => changed.has(path.resolve(cwd, file.path))),
+		)
+		.map((item) => item.name);
+}
+
+/**
+ * Keeps a copy of the item at `<name>/<version>.json` in `versionsDir`, which
+ * is committed so the check holds on clean checkouts. Published versions are
+ * immutable, so changed content under an existing version is an error.
+ */
+async function writeSnapshot(
+	versionsDir: string,
+	name: string,
+	version: string,
+	content: string,
+) {
+	const snapshot = Bun.file(path.join(versionsDir, name, `${version}.json`));
+	if (!(await snapshot.exists())) {
+		await Bun.write(snapshot, content);
+		return;
+	}
+	if ((await snapshot.text()) !== content) {
+		throw new Error(
+			`${name}@${version} is already published with different content. Bump its version in registry.json.`,
+		);
+	}
+}
+
+/** Copies every published version of `name` next to its latest build. */
+async function publishSnapshots(
+	versionsDir: string,
+	outputDir: string,
+	name: string,
+) {
+	const snapshots = path.join(versionsDir, name);
+	if (!existsSync(snapshots)) {
+		return;
+	}
+	await cp(snapshots, path.join(outputDir, name), { recursive: true });
+}
+
+function toJson(value: unknown) {
+	return `${JSON.stringify(value, null, 2)}\n`;
+}
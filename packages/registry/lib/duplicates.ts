@@ -0,0 +1,106 @@
+import path from "node:path";
+import { Glob } from "bun";
+import { readRegistry } from "./build.js";
+import type { LintIssue } from "./lint.js";
+
+export interface FindCopiesOptions {
+	/** Package root that `registry.json` and item file paths are relative to. */
+	cwd: string;
+	/** Directories, relative to `cwd`, that must not keep copies of item files. */
+	dirs?: string[];
+	/** Share of matching code at which a file counts as a copy. */
+	threshold?: number;
+}
+
+// Runs of this many tokens are compared, so shared boilerplate such as
+// imports and `className` plumbing does not make unrelated components match.
+const SHINGLE_SIZE = 8;
+
+/**
+ * Finds files outside the registry that copy an item file. Every item has
+ * one source, listed in `registry.json`; other packages import it instead of
+ * keeping a copy that silently drifts. Identical copies and copies that have
+ * drifted (formatting, quotes and semicolons are ignored) are both errors.
+ */
+export async function findCopies({
+	cwd,
+	dirs = ["../ui/src", "../../apps/docs/components"],
+	threshold = 0.7,
+}: FindCopiesOptions): Promise<LintIssue[]> {
+	const registry = await readRegistry(cwd);
+	const sources = new Set<string>();
+	const items: { item: string; file: string; shingles: Map<string, number> }[] =
+		[];
+	for (const item of registry.items) {
+		for (const file of item.files ?? []) {
+			const filePath = path.resolve(cwd, file.path);
+			sources.add(filePath);
+			const source = Bun.file(filePath);
+			if (await source.exists()) {
+				items.push({
+					item: item.name,
+					file: file.path,
+					shingles: getShingles(await source.text()),
+				});
+			}
+		}
+	}
+
+	const issues: LintIssue[] = [];
+	const glob = new Glob("**/*.{ts,tsx}");
+	for (const dir of dirs) {
+		for await (const match of glob.scan({ cwd: path.resolve(cwd, dir) })) {
+			const filePath = path.resolve(cwd, dir, match);
+			if (sources.has(filePath)) {
+				continue;
+			}
+			const shingles = getShingles(await Bun.file(filePath).text());
+			for (const { item, file, shingles: itemShingles } of items) {
+				const similarity = getSimilarity(shingles, itemShingles);
+				if (similarity < threshold) {
+					continue;
+				}
+				const copy = path.relative(cwd, filePath);
+				issues.push({
+					item,
+					level: "error",
+					message:
+						similarity === 1
+							? `${copy} is a copy of ${file}. Import one from the other, or point registry.json at ${copy}.`
+							: `${copy} is a drifted copy of ${file} (${Math.round(similarity * 100)}% the same). Merge the two into one source.`,
+				});
+			}
+		}
+	}
+	return issues;
+}
+
+/** Counts of every run of `SHINGLE_SIZE` tokens in `content`. */
+function getShingles(content: string) {
+	const tokens = (
+		content
+			.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, "")
+			.match(/[\w$]+|"[^"\n]*"|'[^'\n]*'|`[^`]*`|[^\s\w;,]/g) ?? []
+	).map((token) => token.replace(/^'(.*)'$/, '"$1"'));
+
+	const shingles = new Map<string, number>();
+	for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+		const shingle = tokens.slice(i, i + SHINGLE_SIZE).join(" ");
+		shingles.set(shingle, (shingles.get(shingle) ?? 0) + 1);
+	}
+	return shingles;
+}
+
+/** Dice coefficient of two shingle multisets: 1 for the same code, 0 for none shared. */
+function getSimilarity(a: Map<string, number>, b: Map<string, number>) {
+	let size = 0;
+	let shared = 0;
+	for (const [shingle, count] of a) {
+		size += count;
+		shared += Math.min(count, b.get(shingle) ?? 0);
+	}
+	for (const count of b.values()) {
+		size += count;
+	}
+	return size === 0 ? 0 : (2 * shared) / size;
+}
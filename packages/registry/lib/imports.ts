@@ -0,0 +1,81 @@
+/**
+ * Maps monorepo-internal import specifiers to the `@/...` aliases consumer
+ * projects configure in `components.json`. The first capture group of each
+ * pattern names the registry item that provides the import.
+ */
+const IMPORT_RULES: {
+	pattern: RegExp;
+	alias: (item: string, file?: string) => string;
+}[] = [
+	{
+		// shadcn/ui primitives, e.g. `@bank-kit/ui/components/ui/table`.
+		pattern: /^@bank-kit\/ui\/components\/ui\/([\w-]+)$/,
+		alias: (item) => `@/components/ui/${item}`,
+	},
+	{
+		// The ui package's own primitives, which some items are sourced from.
+		pattern: /^@bank-kit\/ui\/registry\/new-york\/ui\/([\w-]+)$/,
+		alias: (item) => `@/components/ui/${item}`,
+	},
+	{
+		pattern: /^@bank-kit\/ui\/components\/([\w-]+)$/,
+		alias: (item) => `@/components/${item}`,
+	},
+	{
+		pattern: /^@bank-kit\/ui\/hooks\/([\w-]+)$/,
+		alias: (item) => `@/hooks/${item}`,
+	},
+	{
+		// `@bank-kit/ui/lib/utils` ships as shadcn's `utils` item.
+		pattern: /^@bank-kit\/ui\/lib\/([\w-]+)$/,
+		alias: (item) => `@/lib/${item}`,
+	},
+	{
+		// Another registry item, e.g. `@bank-kit/registry/button/button`.
+		pattern: /^@bank-kit\/registry\/([\w-]+)\/([\w-]+)$/,
+		alias: (_item, file) => `@/components/${file}`,
+	},
+];
+
+const IMPORT_SPECIFIER_PATTERN =
+	/(\bfrom\s*|\bimport\s*\(?\s*)(["'])(@bank-kit\/[^"']+)\2/g;
+
+/**
+ * The consumer alias for a monorepo import and the registry item providing
+ * it, or `null` when `specifier` is not a known `@bank-kit/...` import.
+ */
+export function resolveImport(specifier: string) {
+	for (const { pattern, alias } of IMPORT_RULES) {
+		const [, item, file] = specifier.match(pattern) ?? [];
+		if (item) {
+			return { alias: alias(item, file), item };
+		}
+	}
+	return null;
+}
+
+/**
+ * Rewrites `@bank-kit/...` imports in `content` to consumer aliases and
+ * returns the registry items those imports need, in order of appearance.
+ * Unknown `@bank-kit/...` specifiers are left untouched.
+ */
+export function rewriteImports(content: string) {
+	const registryDependencies = new Set<string>();
+
+	const rewritten = content.replace(
+		IMPORT_SPECIFIER_PATTERN,
+		(match, prefix: string, quote: string, specifier: string) => {
+			const resolved = resolveImport(specifier);
+			if (!resolved) {
+				return match;
+			}
+			registryDependencies.add(resolved.item);
+			return `${prefix}${quote}${resolved.alias}${quote}`;
+		},
+	);
+
+	return {
+		content: rewritten,
+		registryDependencies: [...registryDependencies],
+	};
+}
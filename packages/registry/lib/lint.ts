@@ -0,0 +1,178 @@
+import { existsSync } from "node:fs";
+import { builtinModules } from "node:module";
+import path from "node:path";
+import { Project, SyntaxKind } from "ts-morph";
+import { readRegistry } from "./build.js";
+import { resolveImport } from "./imports.js";
+import type { RegistryItem } from "./schema.js";
+
+export interface LintIssue {
+	item: string;
+	level: "error" | "warn";
+	message: string;
+}
+
+export interface LintRegistryOptions {
+	/** Package root that `registry.json` and item file paths are relative to. */
+	cwd: string;
+	/** Where docs pages live, one `<name>.mdx` per item. */
+	docsDir?: string;
+}
+
+// Every consumer project has these, so items need not declare them.
+const IMPLICIT_DEPENDENCIES = new Set(["react", "react-dom"]);
+
+/**
+ * Checks `registry.json` against the item sources: duplicate names, missing
+ * files, npm imports that are not declared in `dependencies` (and declared
+ * ones nothing imports), imports of other items that consumers cannot
+ * resolve, and items without a docs page.
+ */
+export async function lintRegistry({
+	cwd,
+	docsDir = path.join(cwd, "../../apps/docs/content/docs/components"),
+}: LintRegistryOptions): Promise<LintIssue[]> {
+	const registry = await readRegistry(cwd);
+	const names = new Set(registry.items.map((item) => item.name));
+	const issues: LintIssue[] = [];
+	const project = new Project({
+		skipAddingFilesFromTsConfig: true,
+		skipFileDependencyResolution: true,
+	});
+
+	const seen = new Set<string>();
+	for (const item of registry.items) {
+		const report = (level: LintIssue["level"], message: string) =>
+			issues.push({ item: item.name, level, message });
+
+		if (seen.has(item.name)) {
+			report("error", "Duplicate item name.");
+		}
+		seen.add(item.name);
+
+		const specifiers = new Set<string>();
+		for (const file of item.files ?? []) {
+			const filePath = path.resolve(cwd, file.path);
+			if (!existsSync(filePath)) {
+				report("error", `File ${file.path} does not exist.`);
+				continue;
+			}
+			for (const specifier of getImportSpecifiers(project, filePath)) {
+				specifiers.add(specifier);
+			}
+		}
+
+		const packages = new Set<string>();
+		for (const specifier of specifiers) {
+			const problem = checkImport(specifier, item, names);
+			if (problem) {
+				report("error", problem);
+			} else if (isPackageImport(specifier)) {
+				packages.add(getPackageName(specifier));
+			}
+		}
+
+		const declared = new Set(
+			[...(item.dependencies ?? []), ...(item.devDependencies ?? [])].map(
+				getPackageName,
+			),
+		);
+		for (const name of packages) {
+			if (!declared.has(name) && !IMPLICIT_DEPENDENCIES.has(name)) {
+				report("error", `Imports ${name}, which is not in dependencies.`);
+			}
+		}
+		for (const name of declared) {
+			if (!packages.has(name)) {
+				report("warn", `Declares ${name}, which no file imports.`);
+			}
+		}
+
+		if (!existsSync(path.join(docsDir, `${item.name}.mdx`))) {
+			report(
+				"warn",
+				`No docs page at ${path.relative(cwd, path.join(docsDir, `${item.name}.mdx`))}.`,
+			);
+		}
+	}
+
+	return issues;
+}
+
+/** Module specifiers of static imports, re-exports and dynamic imports. */
+function getImportSpecifiers(project: Project, filePath: string) {
+	const sourceFile = project.addSourceFileAtPath(filePath);
+	const specifiers = [
+		...sourceFile
+			.getImportDeclarations()
+			.map((declaration) => declaration.getModuleSpecifierValue()),
+		...sourceFile
+			.getExportDeclarations()
+			.map((declaration) => declaration.getModuleSpecifierValue()),
+		...sourceFile
+			.getDescendantsOfKind(SyntaxKind.CallExpression)
+			.filter(
+				(call) => call.getExpression().getKind() === SyntaxKind.ImportKeyword,
+			)
+			.map((call) =>
+				call
+					.getArguments()[0]
+					?.asKind(SyntaxKind.StringLiteral)
+					?.getLiteralValue(),
+			),
+	];
+	project.removeSourceFile(sourceFile);
+	return specifiers.filter((specifier): specifier is string => !!specifier);
+}
+
+/**
+ * Imports of other registry items have to survive publishing: `@bank-kit/...`
+ * imports must map to a consumer alias, bank-kit components must exist in this
+ * registry, and `@/...` alias imports are only resolvable when the item they
+ * point at is in `registryDependencies` (the build cannot infer those).
+ */
+function checkImport(
+	specifier: string,
+	item: RegistryItem,
+	names: Set<string>,
+) {
+	if (specifier.startsWith("@bank-kit/")) {
+		const resolved = resolveImport(specifier);
+		if (!resolved) {
+			return `Imports ${specifier}, which cannot be rewritten for consumers.`;
+		}
+		const isComponent =
+			resolved.alias.startsWith("@/components/") &&
+			!resolved.alias.startsWith("@/components/ui/");
+		if (isComponent && !names.has(resolved.item)) {
+			return `Imports ${specifier}, but "${resolved.item}" is not a registry item.`;
+		}
+		return null;
+	}
+
+	const [, dependency] =
+		specifier.match(/^@\/(?:components\/ui|components|hooks|lib)\/([\w-]+)/) ??
+		[];
+	if (dependency && !item.registryDependencies?.includes(dependency)) {
+		return `Imports ${specifier}, but "${dependency}" is not in registryDependencies.`;
+	}
+	return null;
+}
+
+function isPackageImport(specifier: string) {
+	return (
+		!specifier.startsWith(".") &&
+		!specifier.startsWith("/") &&
+		!specifier.startsWith("@/") &&
+		!specifier.startsWith("@bank-kit/") &&
+		!specifier.startsWith("node:") &&
+		!builtinModules.includes(specifier)
+	);
+}
+
+/** `motion/react` -> `motion`, `@radix-ui/react-slot@^1` -> `@radix-ui/react-slot`. */
+function getPackageName(specifier: string) {
+	const [scope = "", name = ""] = specifier.split("/");
+	const packageName = scope.startsWith("@") ? `${scope}/${name}` : scope;
+	return packageName.replace(/(.)@.*$/, "$1");
+}
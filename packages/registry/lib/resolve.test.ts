@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import {
+	CircularDependencyError,
+	type RegistryItemLoader,
+	collectRegistryItems,
+} from "./resolve.js";
+import type { RegistryItem } from "./schema.js";
+
+function createLoader(items: RegistryItem[]): RegistryItemLoader {
+	return async (name) => items.find((item) => item.name === name) ?? null;
+}
+
+describe("collectRegistryItems", () => {
+	test("returns dependencies before their dependents", async () => {
+		const { items, unresolved } = await collectRegistryItems(
+			["card"],
+			createLoader([
+				{
+					name: "card",
+					type: "registry:component",
+					registryDependencies: ["button", "utils"],
+				},
+				{ name: "button", type: "registry:ui" },
+			]),
+		);
+
+		expect(items.map(({ name }) => name)).toEqual(["button", "card"]);
+		expect(unresolved).toEqual(["utils"]);
+	});
+
+	test("throws the cycle when dependencies loop", async () => {
+		const loadItem = createLoader([
+			{ name: "a", type: "registry:ui", registryDependencies: ["b"] },
+			{ name: "b", type: "registry:ui", registryDependencies: ["a"] },
+		]);
+
+		const error = await collectRegistryItems(["a"], loadItem).catch(
+			(error: unknown) => error,
+		);
+		expect(error).toBeInstanceOf(CircularDependencyError);
+		expect((error as CircularDependencyError).cycle).toEqual(["a", "b", "a"]);
+	});
+});
@@ -0,0 +1,137 @@
+import {
+	type RegistryItem,
+	type RegistryResolvedItemsTree,
+	registryResolvedItemsTreeSchema,
+} from "./schema.js";
+
+/** Loads a registry item by name, or `null` when this registry lacks it. */
+export type RegistryItemLoader = (name: string) => Promise<RegistryItem | null>;
+
+/** Thrown when `registryDependencies` lead back to an item already on the path. */
+export class CircularDependencyError extends Error {
+	constructor(readonly cycle: string[]) {
+		super(`Circular registryDependencies: ${cycle.join(" -> ")}`);
+		this.name = "CircularDependencyError";
+	}
+}
+
+/**
+ * Walks `registryDependencies` depth-first and returns the items in install
+ * order, with every dependency before its dependents. Dependencies the loader
+ * cannot find (urls, items from other registries) are returned as
+ * `unresolved` so callers can defer to another registry for them.
+ */
+export async function collectRegistryItems(
+	names: string[],
+	loadItem: RegistryItemLoader,
+) {
+	const items: RegistryItem[] = [];
+	const unresolved: string[] = [];
+	const visited = new Set<string>();
+
+	async function visit(name: string, path: string[]) {
+		if (path.includes(name)) {
+			throw new CircularDependencyError([...path, name]);
+		}
+		if (visited.has(name)) {
+			return;
+		}
+		visited.add(name);
+
+		const item = await loadItem(name);
+		if (!item) {
+			if (path.length === 0) {
+				throw new Error(`Registry item "${name}" not found.`);
+			}
+			unresolved.push(name);
+			return;
+		}
+
+		for (const dependency of item.registryDependencies ?? []) {
+			await visit(dependency, [...path, name]);
+		}
+		items.push(item);
+	}
+
+	for (const name of names) {
+		await visit(name, []);
+	}
+
+	return { items, unresolved };
+}
+
+/**
+ * Merges items into a single tree. Later items win on conflicting files and
+ * config values, so pass them in the order `collectRegistryItems` returns.
+ */
+export function mergeRegistryItems(items: RegistryItem[]) {
+	const files = new Map<string, NonNullable<RegistryItem["files"]>[number]>();
+	for (const file of items.flatMap((item) => item.files ?? [])) {
+		const key = file.target || file.path;
+		files.delete(key);
+		files.set(key, file);
+	}
+
+	const docs = items.flatMap((item) => (item.docs ? [item.docs] : []));
+
+	return {
+		dependencies: unique(items.flatMap((item) => item.dependencies ?? [])),
+		devDependencies: unique(
+			items.flatMap((item) => item.devDependencies ?? []),
+		),
+		files: [...files.values()],
+		tailwind: mergeAll(items.map((item) => item.tailwind)),
+		cssVars: mergeAll(items.map((item) => item.cssVars)),
+		css: mergeAll(items.map((item) => item.css)),
+		docs: docs.length > 0 ? docs.join("\n\n") : undefined,
+	} satisfies RegistryResolvedItemsTree;
+}
+
+/**
+ * Resolves `names` and their `registryDependencies` into a single validated
+ * tree. Dependencies outside this registry are kept in `registryDependencies`.
+ */
+export async function resolveRegistryItemsTree(
+	names: string[],
+	loadItem: RegistryItemLoader,
+): Promise<RegistryResolvedItemsTree> {
+	const { items, unresolved } = await collectRegistryItems(names, loadItem);
+
+	return registryResolvedItemsTreeSchema.parse({
+		...mergeRegistryItems(items),
+		registryDependencies: unresolved,
+	});
+}
+
+function unique(values: string[]) {
+	return [...new Set(values)];
+}
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeAll<T>(values: (T | undefined)[]): T | undefined {
+	const defined = values.filter((value): value is T => value !== undefined);
+	if (defined.length === 0) {
+		return undefined;
+	}
+	return defined.reduce((merged, value) => deepMerge(merged, value) as T);
+}
+
+/** Recursively merges plain objects; arrays are unioned, scalars overwritten. */
+function deepMerge(target: unknown, source: unknown): unknown {
+	if (Array.isArray(target) && Array.isArray(source)) {
+		return [...new Set([...target, ...source])];
+	}
+	if (isPlainObject(target) && isPlainObject(source)) {
+		const merged: PlainObject = { ...target };
+		for (const [key, value] of Object.entries(source)) {
+			merged[key] = key in merged ? deepMerge(merged[key], value) : value;
+		}
+		return merged;
+	}
+	return source;
+}
@@ -69,6 +69,8 @@ export const registryItemSchema = z.object({
 	$schema: z.string().optional(),
 	extends: z.string().optional(),
 	name: z.string(),
+	// Semver version of the item. Published versions are immutable.
+	version: z.string().optional(),
 	type: registryItemTypeSchema,
 	title: z.string().optional(),
 	author: z.string().min(2).optional(),
@@ -123,9 +125,43 @@ export const registryBaseColorSchema = z.object({
 export const registryResolvedItemsTreeSchema = registryItemSchema.pick({
 	dependencies: true,
 	devDependencies: true,
+	// Items the tree could not inline, e.g. ones hosted by another registry.
+	registryDependencies: true,
 	files: true,
 	tailwind: true,
 	cssVars: true,
 	css: true,
 	docs: true,
 });
+
+export type RegistryResolvedItemsTree = z.infer<
+	typeof registryResolvedItemsTreeSchema
+>;
+
+// bank-kit.lock.json, written by the CLI in consumer projects.
+export const registryLockfileItemSchema = z.object({
+	version: z.string().optional(),
+	// Registry API the item was installed from.
+	registry: z.string().url(),
+	// Installed only as a registry dependency of other items.
+	dependency: z.boolean().optional(),
+	files: z.array(
+		z.object({
+			// Target relative to the project root, with forward slashes.
+			path: z.string(),
+			// sha256 of the content as installed, after alias rewriting.
+			hash: z.string(),
+		}),
+	),
+});
+
+export type RegistryLockfileItem = z.infer<typeof registryLockfileItemSchema>;
+
+export const registryLockfileSchema = z.object({
+	lockfileVersion: z.literal(1),
+	// Keyed by the name items are requested by, e.g. `@acme/table` for a
+	// namespaced item, matching how `registryDependencies` list them.
+	items: z.record(z.string(), registryLockfileItemSchema),
+});
+
+export type RegistryLockfile = z.infer<typeof registryLockfileSchema>;
@@ -0,0 +1,18 @@
+/**
+ * Builds `registry.json` into `public/r`. Run with `bun run build`.
+ */
+import path from "node:path";
+import { buildRegistry } from "../lib/build.js";
+
+const { built, errors } = await buildRegistry({
+	cwd: path.join(import.meta.dir, ".."),
+});
+
+console.log(`Built ${built.length} registry items.`);
+
+if (errors.length > 0) {
+	for (const error of errors) {
+		console.error(error);
+	}
+	process.exit(1);
+}
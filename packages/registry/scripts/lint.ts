@@ -0,0 +1,27 @@
+/**
+ * Checks `registry.json` against the item sources, and that no other package
+ * keeps a copy of an item file. Run with `bun run lint`.
+ */
+import path from "node:path";
+import { findCopies } from "../lib/duplicates.js";
+import { lintRegistry } from "../lib/lint.js";
+
+const cwd = path.join(import.meta.dir, "..");
+const issues = [
+	...(await lintRegistry({ cwd })),
+	...(await findCopies({ cwd })),
+];
+
+for (const { item, level, message } of issues) {
+	const log = level === "error" ? console.error : console.warn;
+	log(`${level === "error" ? "error" : "warning"} ${item}: ${message}`);
+}
+
+const errors = issues.filter((issue) => issue.level === "error").length;
+console.log(
+	`${errors} errors, ${issues.length - errors} warnings in registry.json.`,
+);
+
+if (errors > 0) {
+	process.exit(1);
+}
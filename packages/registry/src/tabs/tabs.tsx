@@ -14,7 +14,7 @@ export function Tabs() {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const activeTabRef = useRef<HTMLButtonElement>(null);
 
-	// biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
+	// biome-ignore lint/correctness/useExhaustiveDependencies: The dependencies activeTabRef and containerRef are stable because they are refs and do not change between renders, so it's safe to omit them from the dependency array.
 	useEffect(() => {
 		const container = containerRef.current;
 
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { renderToStaticMarkup } from "react-dom/server";
+import { type Transaction, TransactionsTable } from "./transactions-table.js";
+
+const posted: Transaction = {
+	id: "1",
+	postedAt: new Date("2025-03-01"),
+	description: "Salary",
+	category: "Income",
+	amount: 1000,
+	balance: 1000,
+	status: "posted",
+};
+
+function transaction(id: string, amount: number): Transaction {
+	return {
+		id,
+		postedAt: new Date("2025-03-02"),
+		description: amount < 0 ? "Card payment" : "Refund",
+		category: "Shopping",
+		amount,
+		balance: 0,
+		status: "pending",
+	};
+}
+
+/** The current and available balance shown above the table. */
+function getBalances(data: Transaction[]) {
+	const html = renderToStaticMarkup(
+		<TransactionsTable data={data} locale="en-US" showFilters={false} />,
+	);
+	const balance = (label: string) =>
+		html.match(new RegExp(`${label}</dt><dd[^>]*>([^<]*)</dd>`))?.[1];
+	return {
+		current: balance("Current balance"),
+		available: balance("Available balance"),
+	};
+}
+
+describe("TransactionsTable balance", () => {
+	test("subtracts pending debits from the available balance", () => {
+		expect(getBalances([posted, transaction("2", -50)])).toEqual({
+			current: "$1,000.00",
+			available: "$950.00",
+		});
+	});
+
+	test("leaves pending credits out until they post", () => {
+		expect(
+			getBalances([posted, transaction("2", -50), transaction("3", 200)]),
+		).toEqual({ current: "$1,000.00", available: "$950.00" });
+	});
+
+	test("shows no available balance with only pending credits", () => {
+		expect(getBalances([posted, transaction("2", 200)])).toEqual({
+			current: "$1,000.00",
+			available: undefined,
+		});
+	});
+});
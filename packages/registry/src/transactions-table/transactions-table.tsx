@@ -1,17 +1,34 @@
 "use client";
 
-import { Table } from "@bank-kit/ui/components/ui/table";
+import { Searchbar } from "@bank-kit/ui/components/searchbar";
 import { cn } from "@bank-kit/ui/lib/utils";
+import { Input } from "@bank-kit/ui/registry/new-york/ui/input";
 import {
+	type Column,
 	type ColumnDef,
+	type ColumnFiltersState,
+	type Row,
 	type SortingState,
+	type Table as TanstackTable,
+	type VisibilityState,
 	flexRender,
 	getCoreRowModel,
+	getFacetedRowModel,
+	getFacetedUniqueValues,
+	getFilteredRowModel,
 	getSortedRowModel,
 	useReactTable,
 } from "@tanstack/react-table";
-import { format } from "date-fns";
-import { ArrowDown, ArrowUp } from "lucide-react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import {
+	endOfDay,
+	format,
+	parseISO,
+	startOfDay,
+	startOfMonth,
+	startOfWeek,
+} from "date-fns";
+import { ArrowDown, ArrowUp, ChevronRight, X } from "lucide-react";
 import * as React from "react";
 
 /** -------------------------------------------------------------------------
@@ -25,91 +42,359 @@ export interface Transaction {
 	amount: number; // negative for debits, positive for credits
 	balance: number; // running balance after txn
 	status: "pending" | "posted";
+	currency?: string; // ISO 4217 code of amount and balance, e.g. "EUR"
 }
 
 /** -------------------------------------------------------------------------
- * Column definitions
+ * Filters
  * --------------------------------------------------------------------------*/
-const columnHelper = {
-	date: {
-		header: "Date",
-		cell: (row: Transaction) => format(row.postedAt, "MMM d, yyyy"),
-		enableSorting: true,
-	},
-	description: {
-		header: "Description",
-		cell: (row: Transaction) => row.description,
-		enableSorting: true,
-	},
-	category: {
-		header: "Category",
-		cell: (row: Transaction) => row.category,
-		enableSorting: true,
-	},
-	amount: {
-		header: "Amount",
-		cell: (row: Transaction) =>
-			row.amount.toLocaleString(undefined, {
-				style: "currency",
-				currency: "USD",
-			}),
-		enableSorting: true,
-	},
-	balance: {
-		header: "Balance",
-		cell: (row: Transaction) =>
-			row.balance.toLocaleString(undefined, {
-				style: "currency",
-				currency: "USD",
-			}),
-		enableSorting: true,
-	},
+/**
+ * What the table shows. Unset fields do not filter. Plain data, so it can be
+ * kept in the URL and passed back in through `filters`.
+ */
+export interface TransactionFilters {
+	/** Case-insensitive match on the description. */
+	search?: string;
+	/** First day shown, inclusive. */
+	from?: Date;
+	/** Last day shown, inclusive. */
+	to?: Date;
+	/** Shows transactions in any of these categories. */
+	categories?: string[];
+	/** Smallest amount shown, ignoring the sign. In `currency` when `convert` is set. */
+	minAmount?: number;
+	/** Largest amount shown, ignoring the sign. In `currency` when `convert` is set. */
+	maxAmount?: number;
+	direction?: "debit" | "credit";
+	status?: Transaction["status"];
+}
+
+type AmountFilter = Pick<
+	TransactionFilters,
+	"minAmount" | "maxAmount" | "direction"
+>;
+
+/** Maps `filters` to the column filters of the matching columns. */
+function toColumnFilters({
+	search,
+	from,
+	to,
+	categories,
+	minAmount,
+	maxAmount,
+	direction,
+	status,
+}: TransactionFilters): ColumnFiltersState {
+	const columnFilters: ColumnFiltersState = [];
+	if (search) {
+		columnFilters.push({ id: "description", value: search });
+	}
+	if (from || to) {
+		columnFilters.push({ id: "postedAt", value: { from, to } });
+	}
+	if (categories?.length) {
+		columnFilters.push({ id: "category", value: categories });
+	}
+	if (minAmount !== undefined || maxAmount !== undefined || direction) {
+		columnFilters.push({
+			id: "amount",
+			value: { minAmount, maxAmount, direction } satisfies AmountFilter,
+		});
+	}
+	if (status) {
+		columnFilters.push({ id: "status", value: status });
+	}
+	return columnFilters;
+}
+
+/** -------------------------------------------------------------------------
+ * Money formatting
+ * --------------------------------------------------------------------------*/
+interface MoneyOptions {
+	currency: string;
+	locale?: string;
+	minorUnits: boolean;
+	convert?: (amount: number, from: string, to: string) => number;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(currency: string, locale?: string) {
+	const key = `${locale ?? ""}:${currency}`;
+	let formatter = formatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.NumberFormat(locale, { style: "currency", currency });
+		formatters.set(key, formatter);
+	}
+	return formatter;
+}
+
+/** `amount` in major units, e.g. 1050 cents -> 10.5. JPY has no minor unit, BHD has 3 digits. */
+function toMajorUnits(amount: number, currency: string, minorUnits: boolean) {
+	if (!minorUnits) {
+		return amount;
+	}
+	const { maximumFractionDigits = 2 } = getFormatter(
+		currency,
+		"en",
+	).resolvedOptions();
+	return amount / 10 ** maximumFractionDigits;
+}
+
+/** An amount or balance of `transaction`, converted to the table currency when it differs. */
+function getMoney(
+	transaction: Transaction,
+	value: number,
+	{ currency, minorUnits, convert }: MoneyOptions,
+) {
+	const from = transaction.currency ?? currency;
+	const amount = toMajorUnits(value, from, minorUnits);
+	return {
+		amount,
+		currency: from,
+		converted:
+			convert && from !== currency
+				? convert(amount, from, currency)
+				: undefined,
+	};
+}
+
+/** -------------------------------------------------------------------------
+ * Date grouping
+ * --------------------------------------------------------------------------*/
+export type TransactionGrouping = "day" | "week" | "month";
+
+interface TransactionGroup {
+	id: string;
+	label: string;
+	rows: Row<Transaction>[];
+	/** Sum of the amounts, unless they are in currencies that cannot be added up. */
+	net?: { amount: number; currency: string };
+	/** Balance after the group's last transaction. Pending ones have none. */
+	closingBalance?: { amount: number; currency: string };
+}
+
+type TableItem =
+	| { type: "group"; id: string; group: TransactionGroup }
+	| { type: "row"; id: string; row: Row<Transaction> };
+
+const GROUP_LABELS: Record<TransactionGrouping, string> = {
+	day: "EEEE, MMM d, yyyy",
+	week: "'Week of' MMM d, yyyy",
+	month: "MMMM yyyy",
 };
 
-const columns: ColumnDef<Transaction>[] = [
-	{
-		accessorKey: "postedAt",
-		header: () => "Date",
-		cell: ({ getValue }) => format(getValue<Date>(), "MMM d, yyyy"),
-	},
-	{
-		accessorKey: "description",
-		header: () => "Description",
-		cell: ({ getValue }) => getValue<string>(),
-	},
-	{
-		accessorKey: "category",
-		header: () => "Category",
-		cell: ({ getValue }) => getValue<string>(),
-	},
+function getGroupStart(date: Date, groupBy: TransactionGrouping) {
+	switch (groupBy) {
+		case "day":
+			return startOfDay(date);
+		case "week":
+			return startOfWeek(date, { weekStartsOn: 1 });
+		case "month":
+			return startOfMonth(date);
+	}
+}
+
+/**
+ * The most recent of `rows`. `dataNewestFirst` breaks ties between
+ * same-time transactions by their order in the data.
+ */
+function getLatest(rows: Row<Transaction>[], dataNewestFirst: boolean) {
+	return rows.reduce<Row<Transaction> | undefined>((a, b) => {
+		if (!a) {
+			return b;
+		}
+		const later = b.original.postedAt.getTime() - a.original.postedAt.getTime();
+		if (later !== 0) {
+			return later > 0 ? b : a;
+		}
+		return b.index < a.index === dataNewestFirst ? b : a;
+	}, undefined);
+}
+
+/** Sum of the amounts of `rows`, or `undefined` when they are in currencies that cannot be added up. */
+function getNet(rows: Row<Transaction>[], money: MoneyOptions) {
+	const amounts = rows.map((row) => {
+		const amount = getMoney(row.original, row.original.amount, money);
+		return amount.converted === undefined
+			? amount
+			: { amount: amount.converted, currency: money.currency };
+	});
+	const [first] = amounts;
+	if (!first || amounts.some(({ currency }) => currency !== first.currency)) {
+		return undefined;
+	}
+	return {
+		amount: amounts.reduce((sum, { amount }) => sum + amount, 0),
+		currency: first.currency,
+	};
+}
+
+/** A group of `rows`, closing on the balance after the latest one. */
+function toGroup(
+	id: string,
+	label: string,
+	rows: Row<Transaction>[],
+	{ dataNewestFirst, money }: { dataNewestFirst: boolean; money: MoneyOptions },
+): TransactionGroup {
+	const last = getLatest(rows, dataNewestFirst);
+	return {
+		id,
+		label,
+		rows,
+		net: getNet(rows, money),
+		closingBalance:
+			last && getMoney(last.original, last.original.balance, money),
+	};
+}
+
+/**
+ * Splits `rows` into groups by date. Rows keep their order within a group,
+ * so sorting by another column sorts each group; the groups themselves stay
+ * in date order, newest first unless `newestFirst` is false.
+ * `dataNewestFirst` breaks ties between same-time transactions when finding
+ * the last one of a group.
+ */
+function groupRows(
+	rows: Row<Transaction>[],
+	groupBy: TransactionGrouping,
 	{
-		accessorKey: "amount",
-		header: () => "Amount",
-		cell: ({ getValue }) => {
-			const amount = getValue<number>();
-			const formatted = amount.toLocaleString(undefined, {
-				style: "currency",
-				currency: "USD",
-			});
-			return (
-				<span className={amount < 0 ? "text-danger" : "text-success"}>
-					{formatted}
-				</span>
-			);
+		newestFirst,
+		dataNewestFirst,
+		money,
+	}: { newestFirst: boolean; dataNewestFirst: boolean; money: MoneyOptions },
+): TransactionGroup[] {
+	const byStart = new Map<number, Row<Transaction>[]>();
+	for (const row of rows) {
+		const start = getGroupStart(row.original.postedAt, groupBy).getTime();
+		const group = byStart.get(start);
+		if (group) {
+			group.push(row);
+		} else {
+			byStart.set(start, [row]);
+		}
+	}
+
+	return [...byStart]
+		.sort(([a], [b]) => (newestFirst ? b - a : a - b))
+		.map(([start, groupRows]) =>
+			toGroup(
+				`group:${start}`,
+				format(start, GROUP_LABELS[groupBy]),
+				groupRows,
+				{ dataNewestFirst, money },
+			),
+		);
+}
+
+/** -------------------------------------------------------------------------
+ * Column definitions
+ * --------------------------------------------------------------------------*/
+function getColumns(options: MoneyOptions): ColumnDef<Transaction>[] {
+	const { currency, locale } = options;
+
+	return [
+		{
+			accessorKey: "postedAt",
+			header: () => "Date",
+			cell: ({ getValue }) => format(getValue<Date>(), "MMM d, yyyy"),
+			filterFn: (
+				row,
+				id,
+				{ from, to }: Pick<TransactionFilters, "from" | "to">,
+			) => {
+				const postedAt = row.getValue<Date>(id);
+				return (
+					(!from || postedAt >= startOfDay(from)) &&
+					(!to || postedAt <= endOfDay(to))
+				);
+			},
 		},
-	},
-	{
-		accessorKey: "balance",
-		header: () => "Balance",
-		cell: ({ getValue }) => {
-			const balance = getValue<number>();
-			return balance.toLocaleString(undefined, {
-				style: "currency",
-				currency: "USD",
-			});
+		{
+			accessorKey: "description",
+			header: () => "Description",
+			cell: ({ getValue }) => getValue<string>(),
+			filterFn: "includesString",
 		},
-	},
-];
+		{
+			accessorKey: "category",
+			header: () => "Category",
+			cell: ({ getValue }) => getValue<string>(),
+			filterFn: (row, id, categories: string[]) =>
+				categories.includes(row.getValue<string>(id)),
+		},
+		{
+			// Sort by the converted amount so mixed currencies compare by value.
+			id: "amount",
+			accessorFn: (row) => {
+				const money = getMoney(row, row.amount, options);
+				return money.converted ?? money.amount;
+			},
+			header: () => "Amount",
+			filterFn: (
+				row,
+				id,
+				{ minAmount, maxAmount, direction }: AmountFilter,
+			) => {
+				const amount = row.getValue<number>(id);
+				if (direction && (amount < 0 ? "debit" : "credit") !== direction) {
+					return false;
+				}
+				return (
+					(minAmount === undefined || Math.abs(amount) >= minAmount) &&
+					(maxAmount === undefined || Math.abs(amount) <= maxAmount)
+				);
+			},
+			cell: ({ row }) => {
+				const money = getMoney(row.original, row.original.amount, options);
+				return (
+					<>
+						<span className={money.amount < 0 ? "text-danger" : "text-success"}>
+							{getFormatter(money.currency, locale).format(money.amount)}
+						</span>
+						{money.converted !== undefined && (
+							<span className="block text-muted-foreground text-xs">
+								≈ {getFormatter(currency, locale).format(money.converted)}
+							</span>
+						)}
+					</>
+				);
+			},
+		},
+		{
+			accessorKey: "balance",
+			header: () => "Balance",
+			cell: ({ row }) => {
+				// Pending transactions have not moved the balance yet.
+				if (row.original.status === "pending") {
+					return null;
+				}
+				const money = getMoney(row.original, row.original.balance, options);
+				return getFormatter(money.currency, locale).format(money.amount);
+			},
+		},
+		{
+			accessorKey: "status",
+			header: () => "Status",
+			cell: ({ getValue }) => {
+				const status = getValue<Transaction["status"]>();
+				return (
+					<span
+						className={cn(
+							"rounded-md border px-2 py-0.5 font-medium text-xs",
+							status === "pending"
+								? "border-dashed text-muted-foreground"
+								: "border-transparent bg-secondary text-secondary-foreground",
+						)}
+					>
+						{status === "pending" ? "Pending" : "Posted"}
+					</span>
+				);
+			},
+			filterFn: "equals",
+		},
+	];
+}
 
 /** -------------------------------------------------------------------------
  * TransactionsTable component
@@ -117,78 +402,777 @@ const columns: ColumnDef<Transaction>[] = [
 
 export interface TransactionsTableProps {
 	data: Transaction[];
+	/** Currency of transactions without their own, and the one `convert` converts to. */
+	currency?: string;
+	/** Locale amounts are formatted in. Defaults to the user's locale. */
+	locale?: string;
+	/** Amounts and balances are integers in the currency's minor unit, e.g. cents. */
+	minorUnits?: boolean;
+	/**
+	 * Converts an amount (in major units) to `currency`. When set, amounts in
+	 * other currencies show the converted amount under the original one.
+	 */
+	convert?: (amount: number, from: string, to: string) => number;
+	/** Controlled filters. Use with `onFiltersChange`, e.g. to keep them in the URL. */
+	filters?: TransactionFilters;
+	/** Filters to start with when `filters` is not controlled. */
+	defaultFilters?: TransactionFilters;
+	onFiltersChange?: (filters: TransactionFilters) => void;
+	/** Show the filter bar above the table. Filters apply either way. */
+	showFilters?: boolean;
+	/**
+	 * Only render the rows in view, inside a scroll area of `height`. Use for
+	 * long histories; every row is rendered otherwise.
+	 */
+	virtualized?: boolean;
+	/** Height of the scroll area when `virtualized`. */
+	height?: number | string;
+	/**
+	 * Called when the end of the table scrolls into view, to fetch the next
+	 * page. Not called again until a returned promise settles.
+	 */
+	onLoadMore?: () => void | Promise<void>;
+	/** Whether `onLoadMore` has more to load. Set to `false` after the last page. */
+	hasMore?: boolean;
+	/**
+	 * Groups transactions by date under collapsible headers showing the net
+	 * amount and closing balance. Weeks start on Monday.
+	 */
+	groupBy?: TransactionGrouping;
+	/** Show the status column. The filter bar can toggle it either way. */
+	showStatus?: boolean;
+	/**
+	 * Show the current balance above the table, and the available balance:
+	 * the current one less pending debits. Pending credits count once posted.
+	 */
+	showBalance?: boolean;
 	className?: string;
 }
 
-export function TransactionsTable({ data, className }: TransactionsTableProps) {
+// Initial guess; rows are measured once rendered, e.g. taller with a converted amount.
+const ROW_HEIGHT = 37;
+
+export function TransactionsTable({
+	data,
+	currency = "USD",
+	locale,
+	minorUnits = false,
+	convert,
+	filters: controlledFilters,
+	defaultFilters = {},
+	onFiltersChange,
+	showFilters = true,
+	virtualized = false,
+	height = 600,
+	onLoadMore,
+	hasMore = true,
+	groupBy,
+	showStatus = false,
+	showBalance = true,
+	className,
+}: TransactionsTableProps) {
 	const [sorting, setSorting] = React.useState<SortingState>([]);
+	const [uncontrolledFilters, setUncontrolledFilters] =
+		React.useState(defaultFilters);
+	const filters = controlledFilters ?? uncontrolledFilters;
+	const setFilters = (next: TransactionFilters) => {
+		if (!controlledFilters) {
+			setUncontrolledFilters(next);
+		}
+		onFiltersChange?.(next);
+	};
+
+	const money = React.useMemo(
+		() => ({ currency, locale, minorUnits, convert }),
+		[currency, locale, minorUnits, convert],
+	);
+	const columns = React.useMemo(() => getColumns(money), [money]);
+	const [columnVisibility, setColumnVisibility] =
+		React.useState<VisibilityState>({ status: showStatus });
 
 	const table = useReactTable({
 		data,
 		columns,
-		state: { sorting },
+		state: {
+			sorting,
+			columnFilters: React.useMemo(() => toColumnFilters(filters), [filters]),
+			columnVisibility,
+		},
 		onSortingChange: setSorting,
+		onColumnVisibilityChange: setColumnVisibility,
 		getCoreRowModel: getCoreRowModel(),
 		getSortedRowModel: getSortedRowModel(),
+		getFilteredRowModel: getFilteredRowModel(),
+		getFacetedRowModel: getFacetedRowModel(),
+		getFacetedUniqueValues: getFacetedUniqueValues(),
+		getRowId: (row) => row.id,
 		debugTable: false,
 	});
+	const rows = table.getRowModel().rows;
+
+	const [collapsed, setCollapsed] = React.useState<ReadonlySet<string>>(
+		new Set(),
+	);
+	const toggleGroup = (id: string) =>
+		setCollapsed((previous) => {
+			const next = new Set(previous);
+			if (!next.delete(id)) {
+				next.add(id);
+			}
+			return next;
+		});
+
+	const first = data[0]?.postedAt;
+	const last = data.at(-1)?.postedAt;
+	const dataNewestFirst = !first || !last || first >= last;
+
+	const items = React.useMemo((): TableItem[] => {
+		// Pending transactions come first, in a section of their own, like in
+		// a banking app; posted ones follow, grouped by date if asked to.
+		const pending = rows.filter((row) => row.original.status === "pending");
+		const posted = rows.filter((row) => row.original.status !== "pending");
+		const groups: TransactionGroup[] = [];
+		if (pending.length > 0) {
+			groups.push({
+				id: "group:pending",
+				label: "Pending",
+				rows: pending,
+				net: getNet(pending, money),
+			});
+		}
+		if (groupBy) {
+			const dateSort = sorting.find(({ id }) => id === "postedAt");
+			groups.push(
+				...groupRows(posted, groupBy, {
+					newestFirst: dateSort ? dateSort.desc : dataNewestFirst,
+					dataNewestFirst,
+					money,
+				}),
+			);
+		} else if (pending.length > 0 && posted.length > 0) {
+			groups.push(
+				toGroup("group:posted", "Posted", posted, { dataNewestFirst, money }),
+			);
+		} else {
+			return rows.map((row) => ({ type: "row", id: row.id, row }));
+		}
+		return groups.flatMap((group): TableItem[] => [
+			{ type: "group", id: group.id, group },
+			...(collapsed.has(group.id)
+				? []
+				: group.rows.map(
+						(row): TableItem => ({ type: "row", id: row.id, row }),
+					)),
+		]);
+	}, [rows, groupBy, dataNewestFirst, sorting, money, collapsed]);
+
+	// Balances cover every transaction, whatever the filters show.
+	const allRows = table.getCoreRowModel().rows;
+	const balance = React.useMemo(() => {
+		const latest = getLatest(
+			allRows.filter((row) => row.original.status !== "pending"),
+			dataNewestFirst,
+		);
+		if (!latest) {
+			return undefined;
+		}
+		const current = getMoney(latest.original, latest.original.balance, money);
+		// Pending debits are already spoken for, but pending credits cannot be
+		// spent until they post and show up in the current balance.
+		const pending = allRows.filter(
+			(row) => row.original.status === "pending" && row.original.amount < 0,
+		);
+		let available: number | undefined = current.amount;
+		for (const { original } of pending) {
+			const amount = getMoney(original, original.amount, money);
+			const converted =
+				amount.currency === current.currency
+					? amount.amount
+					: money.convert?.(amount.amount, amount.currency, current.currency);
+			available =
+				available === undefined || converted === undefined
+					? undefined
+					: available + converted;
+		}
+		return { current, available, pending: pending.length };
+	}, [allRows, dataNewestFirst, money]);
+
+	const scrollRef = React.useRef<HTMLDivElement>(null);
+	const virtualizer = useVirtualizer({
+		count: items.length,
+		getScrollElement: () => scrollRef.current,
+		estimateSize: () => ROW_HEIGHT,
+		getItemKey: (index) => items[index]?.id ?? index,
+		// Keeps rows scrolled to with the keyboard clear of the sticky header.
+		scrollPaddingStart: ROW_HEIGHT,
+		overscan: 10,
+		enabled: virtualized,
+		// Lets the first screen of rows render on the server.
+		initialRect: { width: 0, height: typeof height === "number" ? height : 0 },
+	});
+	const virtualRows = virtualized ? virtualizer.getVirtualItems() : undefined;
+	const paddingTop = virtualRows?.[0]?.start ?? 0;
+	const paddingBottom = virtualRows?.length
+		? virtualizer.getTotalSize() - (virtualRows.at(-1)?.end ?? 0)
+		: 0;
+
+	// Focus follows the row (or group) id, so it survives sorting, filtering,
+	// new pages and rows being recycled as they scroll out of view.
+	const [activeId, setActiveId] = React.useState<string>();
+	const focusPending = React.useRef(false);
+	const activeIndex = Math.max(
+		items.findIndex((item) => item.id === activeId),
+		0,
+	);
+	React.useEffect(() => {
+		if (!focusPending.current) {
+			return;
+		}
+		const element = scrollRef.current?.querySelector<HTMLElement>(
+			`[data-item-id="${CSS.escape(activeId ?? "")}"]`,
+		);
+		if (element) {
+			focusPending.current = false;
+			element.focus({ preventScroll: virtualized });
+		}
+	});
+
+	const handleKeyDown = (
+		event: React.KeyboardEvent<HTMLTableSectionElement>,
+	) => {
+		const viewport = virtualized
+			? (scrollRef.current?.clientHeight ?? 0)
+			: window.innerHeight;
+		const pageSize = Math.max(Math.floor(viewport / ROW_HEIGHT) - 1, 1);
+		const active = items[activeIndex];
+		if (
+			active?.type === "group" &&
+			(event.key === "Enter" || event.key === " ")
+		) {
+			event.preventDefault();
+			toggleGroup(active.id);
+			return;
+		}
+		const next = {
+			ArrowDown: activeIndex + 1,
+			ArrowUp: activeIndex - 1,
+			PageDown: activeIndex + pageSize,
+			PageUp: activeIndex - pageSize,
+			Home: 0,
+			End: items.length - 1,
+		}[event.key];
+		if (next === undefined || items.length === 0) {
+			return;
+		}
+		event.preventDefault();
+		const index = Math.min(Math.max(next, 0), items.length - 1);
+		setActiveId(items[index]?.id);
+		focusPending.current = true;
+		if (virtualized) {
+			virtualizer.scrollToIndex(index);
+		}
+	};
+
+	const loadMoreRef = React.useRef<HTMLTableRowElement>(null);
+	const loadingMore = useLoadMore(loadMoreRef, {
+		onLoadMore: hasMore ? onLoadMore : undefined,
+		root: virtualized ? scrollRef : undefined,
+		watch: data,
+	});
+	const visibleColumns = table.getVisibleLeafColumns();
+	const columnCount = visibleColumns.length;
 
 	return (
-		<Table className={cn("w-full text-sm", className)}>
-			{/* Header */}
-			<thead className="sticky top-0 z-10 bg-background">
-				{table.getHeaderGroups().map((headerGroup) => (
-					<tr key={headerGroup.id}>
-						{headerGroup.headers.map((header) => {
-							const meta = header.column.columnDef.meta as
-								| { className?: string }
-								| undefined;
-							return (
-								<th
-									key={header.id}
-									colSpan={header.colSpan}
-									className={cn(
-										"whitespace-nowrap px-4 py-2 text-left font-medium",
-										meta?.className,
-									)}
-								>
-									{header.isPlaceholder ? null : (
-										<button
-											type="button"
-											className="inline-flex items-center gap-1"
-											onClick={header.column.getToggleSortingHandler()}
-										>
-											{flexRender(
-												header.column.columnDef.header,
-												header.getContext(),
+		<div className={cn("flex flex-col gap-3", className)}>
+			{showBalance && balance && (
+				<dl className="flex flex-wrap gap-x-8 gap-y-1">
+					<div>
+						<dt className="text-muted-foreground text-xs">Current balance</dt>
+						<dd className="font-medium text-lg tabular-nums">
+							{getFormatter(balance.current.currency, locale).format(
+								balance.current.amount,
+							)}
+						</dd>
+					</div>
+					{balance.pending > 0 && balance.available !== undefined && (
+						<div>
+							<dt className="text-muted-foreground text-xs">
+								Available balance
+							</dt>
+							<dd className="font-medium text-lg tabular-nums">
+								{getFormatter(balance.current.currency, locale).format(
+									balance.available,
+								)}
+							</dd>
+							<dd className="text-muted-foreground text-xs">
+								Includes {balance.pending} pending{" "}
+								{balance.pending === 1 ? "debit" : "debits"}
+							</dd>
+						</div>
+					)}
+				</dl>
+			)}
+			{showFilters && (
+				<TransactionsFilterBar
+					table={table}
+					filters={filters}
+					onFiltersChange={setFilters}
+				/>
+			)}
+			<div
+				ref={scrollRef}
+				className={cn("relative w-full", virtualized && "overflow-auto")}
+				style={virtualized ? { height } : undefined}
+			>
+				<table
+					className="w-full caption-bottom text-sm"
+					aria-rowcount={items.length + 1}
+				>
+					{/* Header */}
+					<thead className="sticky top-0 z-10 bg-background">
+						{table.getHeaderGroups().map((headerGroup) => (
+							<tr key={headerGroup.id} aria-rowindex={1}>
+								{headerGroup.headers.map((header) => {
+									const meta = header.column.columnDef.meta as
+										| { className?: string }
+										| undefined;
+									return (
+										<th
+											key={header.id}
+											colSpan={header.colSpan}
+											className={cn(
+												"whitespace-nowrap px-4 py-2 text-left font-medium",
+												meta?.className,
 											)}
-											{header.column.getIsSorted() === "asc" && (
-												<ArrowUp className="h-3 w-3" />
-											)}
-											{header.column.getIsSorted() === "desc" && (
-												<ArrowDown className="h-3 w-3" />
+										>
+											{header.isPlaceholder ? null : (
+												<button
+													type="button"
+													className="inline-flex items-center gap-1"
+													onClick={header.column.getToggleSortingHandler()}
+												>
+													{flexRender(
+														header.column.columnDef.header,
+														header.getContext(),
+													)}
+													{header.column.getIsSorted() === "asc" && (
+														<ArrowUp className="h-3 w-3" />
+													)}
+													{header.column.getIsSorted() === "desc" && (
+														<ArrowDown className="h-3 w-3" />
+													)}
+												</button>
 											)}
-										</button>
-									)}
-								</th>
-							);
-						})}
-					</tr>
-				))}
-			</thead>
-			{/* Body */}
-			<tbody>
-				{table.getRowModel().rows.map((row) => (
-					<tr key={row.id} className="border-t">
-						{row.getVisibleCells().map((cell) => (
-							<td key={cell.id} className="whitespace-nowrap px-4 py-2">
-								{flexRender(cell.column.columnDef.cell, cell.getContext())}
-							</td>
+										</th>
+									);
+								})}
+							</tr>
 						))}
-					</tr>
-				))}
-			</tbody>
-		</Table>
+					</thead>
+					{/* Body */}
+					<tbody onKeyDown={handleKeyDown}>
+						{paddingTop > 0 && (
+							<tr aria-hidden style={{ height: paddingTop }} />
+						)}
+						{(virtualRows ?? items.map((_, index) => ({ index }))).map(
+							({ index }) => {
+								const item = items[index];
+								if (!item) {
+									return null;
+								}
+								const rowProps = {
+									ref: virtualized ? virtualizer.measureElement : undefined,
+									"data-index": index,
+									"data-item-id": item.id,
+									"aria-rowindex": index + 2,
+									tabIndex: index === activeIndex ? 0 : -1,
+									onFocus: () => setActiveId(item.id),
+								};
+								if (item.type === "group") {
+									return (
+										<TransactionGroupRow
+											key={item.id}
+											{...rowProps}
+											group={item.group}
+											columns={visibleColumns}
+											locale={locale}
+											collapsed={collapsed.has(item.id)}
+											onToggle={() => toggleGroup(item.id)}
+										/>
+									);
+								}
+								const { row } = item;
+								return (
+									<tr
+										key={row.id}
+										{...rowProps}
+										className={cn(
+											"border-t outline-none focus-visible:bg-muted",
+											row.original.status === "pending" &&
+												"bg-muted/30 text-muted-foreground italic",
+										)}
+									>
+										{row.getVisibleCells().map((cell) => (
+											<td key={cell.id} className="whitespace-nowrap px-4 py-2">
+												{flexRender(
+													cell.column.columnDef.cell,
+													cell.getContext(),
+												)}
+											</td>
+										))}
+									</tr>
+								);
+							},
+						)}
+						{paddingBottom > 0 && (
+							<tr aria-hidden style={{ height: paddingBottom }} />
+						)}
+						{onLoadMore && hasMore && (
+							<tr ref={loadMoreRef}>
+								<td
+									colSpan={columnCount}
+									className="px-4 py-2 text-center text-muted-foreground"
+								>
+									{loadingMore ? "Loading more..." : null}
+								</td>
+							</tr>
+						)}
+						{rows.length === 0 && !(onLoadMore && hasMore) && (
+							<tr className="border-t">
+								<td
+									colSpan={columnCount}
+									className="px-4 py-6 text-center text-muted-foreground"
+								>
+									{data.length === 0
+										? "No transactions."
+										: "No transactions match the filters."}
+								</td>
+							</tr>
+						)}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+}
+
+interface TransactionGroupRowProps extends React.ComponentProps<"tr"> {
+	group: TransactionGroup;
+	columns: Column<Transaction>[];
+	locale?: string;
+	collapsed: boolean;
+	onToggle: () => void;
+}
+
+/** Group header: the date, then the net amount and closing balance under their columns. */
+function TransactionGroupRow({
+	group,
+	columns,
+	locale,
+	collapsed,
+	onToggle,
+	className,
+	...props
+}: TransactionGroupRowProps) {
+	const amountIndex = columns.findIndex((column) => column.id === "amount");
+	const trailing = amountIndex === -1 ? [] : columns.slice(amountIndex);
+	const { net, closingBalance } = group;
+
+	return (
+		<tr
+			aria-expanded={!collapsed}
+			className={cn(
+				"border-t bg-muted/50 font-medium outline-none focus-visible:bg-muted",
+				className,
+			)}
+			onClick={onToggle}
+			{...props}
+		>
+			<td
+				colSpan={amountIndex === -1 ? columns.length : amountIndex}
+				className="whitespace-nowrap px-4 py-2"
+			>
+				<span className="inline-flex items-center gap-1">
+					<ChevronRight
+						className={cn(
+							"h-3 w-3 transition-transform",
+							!collapsed && "rotate-90",
+						)}
+					/>
+					{group.label}
+					<span className="font-normal text-muted-foreground">
+						({group.rows.length})
+					</span>
+				</span>
+			</td>
+			{trailing.map((column) => (
+				<td key={column.id} className="whitespace-nowrap px-4 py-2">
+					{column.id === "amount" && net && (
+						<span className={net.amount < 0 ? "text-danger" : "text-success"}>
+							<span className="sr-only">Net </span>
+							{getFormatter(net.currency, locale).format(net.amount)}
+						</span>
+					)}
+					{column.id === "balance" && closingBalance && (
+						<>
+							<span className="sr-only">Closing balance </span>
+							{getFormatter(closingBalance.currency, locale).format(
+								closingBalance.amount,
+							)}
+						</>
+					)}
+				</td>
+			))}
+		</tr>
+	);
+}
+
+/**
+ * Calls `onLoadMore` while `sentinel` is in view of `root` (the viewport by
+ * default), one call at a time. Returns whether a call is in flight. Changes
+ * to `watch`, e.g. a page arriving, check again in case the sentinel is still
+ * in view.
+ */
+function useLoadMore(
+	sentinel: React.RefObject<HTMLElement | null>,
+	{
+		onLoadMore,
+		root,
+		watch,
+	}: {
+		onLoadMore?: () => void | Promise<void>;
+		root?: React.RefObject<HTMLElement | null>;
+		watch?: unknown;
+	},
+) {
+	const [loading, setLoading] = React.useState(false);
+	const pending = React.useRef(false);
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: `watch` is not read; re-observing is what makes a sentinel still in view load the next page.
+	React.useEffect(() => {
+		const element = sentinel.current;
+		if (!element || !onLoadMore) {
+			return;
+		}
+		const observer = new IntersectionObserver(
+			([entry]) => {
+				if (!entry?.isIntersecting || pending.current) {
+					return;
+				}
+				pending.current = true;
+				setLoading(true);
+				Promise.resolve(onLoadMore()).finally(() => {
+					pending.current = false;
+					setLoading(false);
+				});
+			},
+			{ root: root?.current, rootMargin: "200px" },
+		);
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, [sentinel, onLoadMore, root, watch]);
+
+	return loading;
+}
+
+/** -------------------------------------------------------------------------
+ * Filter bar
+ * --------------------------------------------------------------------------*/
+const selectClassName =
+	"h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs";
+
+interface TransactionsFilterBarProps {
+	table: TanstackTable<Transaction>;
+	filters: TransactionFilters;
+	onFiltersChange: (filters: TransactionFilters) => void;
+}
+
+function TransactionsFilterBar({
+	table,
+	filters,
+	onFiltersChange,
+}: TransactionsFilterBarProps) {
+	// Searchbar calls back after its debounce, so read the filters current then.
+	const latest = React.useRef(filters);
+	latest.current = filters;
+	const update = (patch: Partial<TransactionFilters>) =>
+		onFiltersChange({ ...latest.current, ...patch });
+
+	// Searchbar keeps its own value; remount it when the search changes from
+	// outside, e.g. "Clear filters" or the URL.
+	const typed = React.useRef(filters.search);
+	const [searchKey, setSearchKey] = React.useState(0);
+	React.useEffect(() => {
+		if (filters.search !== typed.current) {
+			typed.current = filters.search;
+			setSearchKey((key) => key + 1);
+		}
+	}, [filters.search]);
+
+	// Counts reflect every filter except the category one.
+	const counts = table.getColumn("category")?.getFacetedUniqueValues();
+	const selected = filters.categories ?? [];
+	const categories = [
+		...new Set([...selected, ...(counts?.keys() ?? [])]),
+	].sort();
+
+	const toggleCategory = (category: string) => {
+		const next = selected.includes(category)
+			? selected.filter((other) => other !== category)
+			: [...selected, category];
+		update({ categories: next.length > 0 ? next : undefined });
+	};
+
+	const isFiltered = Object.values(filters).some(
+		(value) => value !== undefined,
+	);
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="flex flex-wrap items-center gap-2">
+				<Searchbar
+					key={searchKey}
+					containerClassName="w-full max-w-xs"
+					placeholder="Search descriptions..."
+					aria-label="Search descriptions"
+					defaultValue={filters.search}
+					onChange={(search) => {
+						typed.current = search || undefined;
+						update({ search: search || undefined });
+					}}
+				/>
+				<Input
+					type="date"
+					aria-label="From"
+					className="w-auto"
+					value={filters.from ? format(filters.from, "yyyy-MM-dd") : ""}
+					onChange={(event) =>
+						update({
+							from: event.target.value
+								? parseISO(event.target.value)
+								: undefined,
+						})
+					}
+				/>
+				<Input
+					type="date"
+					aria-label="To"
+					className="w-auto"
+					value={filters.to ? format(filters.to, "yyyy-MM-dd") : ""}
+					onChange={(event) =>
+						update({
+							to: event.target.value ? parseISO(event.target.value) : undefined,
+						})
+					}
+				/>
+				<Input
+					type="number"
+					min={0}
+					aria-label="Minimum amount"
+					placeholder="Min"
+					className="w-24"
+					value={filters.minAmount ?? ""}
+					onChange={(event) =>
+						update({
+							minAmount:
+								event.target.value === ""
+									? undefined
+									: event.target.valueAsNumber,
+						})
+					}
+				/>
+				<Input
+					type="number"
+					min={0}
+					aria-label="Maximum amount"
+					placeholder="Max"
+					className="w-24"
+					value={filters.maxAmount ?? ""}
+					onChange={(event) =>
+						update({
+							maxAmount:
+								event.target.value === ""
+									? undefined
+									: event.target.valueAsNumber,
+						})
+					}
+				/>
+				<select
+					aria-label="Direction"
+					className={selectClassName}
+					value={filters.direction ?? ""}
+					onChange={(event) =>
+						update({
+							direction:
+								(event.target.value as TransactionFilters["direction"]) ||
+								undefined,
+						})
+					}
+				>
+					<option value="">Debits and credits</option>
+					<option value="debit">Debits</option>
+					<option value="credit">Credits</option>
+				</select>
+				<select
+					aria-label="Status"
+					className={selectClassName}
+					value={filters.status ?? ""}
+					onChange={(event) =>
+						update({
+							status:
+								(event.target.value as TransactionFilters["status"]) ||
+								undefined,
+						})
+					}
+				>
+					<option value="">Any status</option>
+					<option value="pending">Pending</option>
+					<option value="posted">Posted</option>
+				</select>
+				<button
+					type="button"
+					aria-pressed={table.getColumn("status")?.getIsVisible()}
+					className="text-muted-foreground text-sm hover:text-foreground aria-pressed:text-foreground"
+					onClick={() => table.getColumn("status")?.toggleVisibility()}
+				>
+					Status column
+				</button>
+				{isFiltered && (
+					<button
+						type="button"
+						className="inline-flex items-center gap-1 text-muted-foreground text-sm hover:text-foreground"
+						onClick={() => onFiltersChange({})}
+					>
+						<X className="h-3 w-3" />
+						Clear filters
+					</button>
+				)}
+			</div>
+			{categories.length > 0 && (
+				<fieldset className="flex flex-wrap gap-1.5">
+					<legend className="sr-only">Categories</legend>
+					{categories.map((category) => (
+						<button
+							key={category}
+							type="button"
+							aria-pressed={selected.includes(category)}
+							className={cn(
+								"rounded-full border px-2.5 py-0.5 text-xs",
+								selected.includes(category)
+									? "border-primary bg-primary text-primary-foreground"
+									: "text-muted-foreground hover:text-foreground",
+							)}
+							onClick={() => toggleCategory(category)}
+						>
+							{category}{" "}
+							<span className="tabular-nums opacity-70">
+								{counts?.get(category) ?? 0}
+							</span>
+						</button>
+					))}
+				</fieldset>
+			)}
+		</div>
 	);
 }
 
@@ -201,9 +1185,25 @@ export function TransactionsTable({ data, className }: TransactionsTableProps) {
 //     postedAt: new Date(),
 //     description: "Coffee Shop",
 //     category: "Food & Drink",
-//     amount: -4.5,
-//     balance: 1250.56,
+//     amount: -450,
+//     balance: 125056,
+//     status: "posted",
+//   },
+//   {
+//     id: "2",
+//     postedAt: new Date(),
+//     description: "London Hotel",
+//     category: "Travel",
+//     amount: -18000,
+//     balance: 42000,
 //     status: "posted",
+//     currency: "GBP",
 //   },
 // ];
-// <TransactionsTable data={demo} />
+// <TransactionsTable
+//   data={demo}
+//   currency="EUR"
+//   locale="de-DE"
+//   minorUnits
+//   convert={(amount, from, to) => amount * rates[from][to]}
+// />
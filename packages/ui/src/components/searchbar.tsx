@@ -1,10 +1,10 @@
 "use client";
 
-import * as React from "react";
-import { Search } from "lucide-react";
 import { cn } from "@bank-kit/ui/lib/utils";
-import { Input } from "@bank-kit/ui/components/ui/input";
+import { Input } from "@bank-kit/ui/registry/new-york/ui/input";
 import { debounce } from "@tanstack/pacer";
+import { Search } from "lucide-react";
+import * as React from "react";
 
 /* -------------------------------------------------------------------------------------------------
  * Searchbar – component
@@ -47,6 +47,12 @@ export interface SearchbarProps
  * ```
  *
  * @example
+ * Initial value, e.g. restored from the URL
+ * ```tsx
+ * <Searchbar defaultValue={query} onChange={setQuery} />
+ * ```
+ *
+ * @example
  * Custom debounce time
  * ```tsx
  * <Searchbar
@@ -67,24 +73,30 @@ export const Searchbar = React.forwardRef<HTMLInputElement, SearchbarProps>(
 			onChange,
 			placeholder = "Search...",
 			debounceTime = 300,
+			defaultValue,
 			...props
 		},
 		ref,
 	) => {
-		const [value, setValue] = React.useState("");
+		const [value, setValue] = React.useState(String(defaultValue ?? ""));
+
+		// Read through a ref so an inline `onChange` does not recreate the
+		// debounced function, and with it the pending wait, on every render.
+		const onChangeRef = React.useRef(onChange);
+		onChangeRef.current = onChange;
 
 		const debouncedOnChange = React.useMemo(
 			() =>
 				debounce(
 					(searchTerm: string) => {
-						onChange?.(searchTerm);
+						onChangeRef.current?.(searchTerm);
 					},
 					{
 						wait: debounceTime,
 						trailing: true,
 					},
 				),
-			[debounceTime, onChange],
+			[debounceTime],
 		);
 
 		const handleChange = React.useCallback(
@@ -226,7 +226,11 @@ export function fixImport(content: string) {
 		return match;
 	};
 
-	return content.replace(regex, replacement);
+	// Monorepo imports such as `@bank-kit/ui/components/ui/table`.
+	const monorepoRegex =
+		/@bank-kit\/ui\/(components\/ui|components|hooks|lib)\/([\w-]+)/g;
+
+	return content.replace(regex, replacement).replace(monorepoRegex, "@/$1/$2");
 }
 
 export type FileTree = {
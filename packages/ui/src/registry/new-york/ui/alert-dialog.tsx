@@ -3,8 +3,8 @@
 import * as React from "react"
 import * as AlertDialogPrimitive from "@radix-ui/react-alert-dialog"
 
-import { cn } from "@/lib/utils"
-import { buttonVariants } from "@/components/ui/button"
+import { cn } from "@bank-kit/ui/lib/utils"
+import { buttonVariants } from "@bank-kit/ui/registry/new-york/ui/button"
 
 const AlertDialog = AlertDialogPrimitive.Root
 